@@ -1,82 +1,166 @@
-import { useState, useMemo } from 'react'
+import { useCallback, useMemo, useState } from 'react'
+import type { Map as MapboxMap } from 'mapbox-gl'
 import { CopyIcon, DownloadIcon } from '@radix-ui/react-icons'
 import ColorCurve from './ColorCurve'
 import ColorWheel from './components/ColorWheel'
 import ParameterSlider from './components/ParameterSlider'
 import ColorCorrectionPanel from './components/ColorCorrectionPanel'
-import Map from './components/Map'
-import type { Point } from './utils/colorUtils'
-import { generateLUT, type ColorCorrection } from './utils/lutUtils'
+import BaseLUTPanel from './components/BaseLUTPanel'
+import ThemeFileControls from './components/ThemeFileControls'
+import HistoryPanel from './components/HistoryPanel'
+import PresetPanel from './components/PresetPanel'
+import PipelinePanel from './components/PipelinePanel'
+import StyleConfigPanel from './components/StyleConfigPanel'
+import ToneRangePanel from './components/ToneRangePanel'
+import Map, { type MapReference } from './components/Map'
+import CompareControls from './components/CompareControls'
+import BookmarkPanel from './components/BookmarkPanel'
+import ContactSheet from './components/ContactSheet'
+import OfflinePreview from './components/OfflinePreview'
+import AccessibilityPanel from './components/AccessibilityPanel'
+import ContrastPanel from './components/ContrastPanel'
+import ClippingPanel from './components/ClippingPanel'
+import LevelsPanel from './components/LevelsPanel'
+import DiagnosticsPanel from './components/DiagnosticsPanel'
+import { generateLUTCube, createDefaultParameters, type ColorCorrection, type LUTParameters } from './utils/lutUtils'
+import { CURVE_INTERPOLATIONS, type CurveInterpolation } from './utils/curveUtils'
+import { encodeLUTToPNG, encodeLUTToCubeFile, getIdentityLUTPNG } from './utils/lutEncoders'
+import { importLUTFile } from './utils/lutDecoders'
+import { CUBE_SIZES, MAPBOX_CUBE_SIZE, createIdentityLUTCube, type CubeSize } from './utils/lutCube'
+import { simulateColorVisionCube, type ColorVisionDeficiency } from './utils/colorVision'
+import { checkContrast } from './utils/contrast'
+import { computeHistogram, isScopeView, readFrame, type DiagnosticsView } from './utils/scopes'
+import { autoChannelLevels, autoMasterLevels } from './utils/levelsUtils'
+import { serializeTheme, parseThemeDocument } from './utils/themeDocument'
+import { buildShareURL } from './utils/shareUtils'
+import { HAS_ACCESS_TOKEN, createDefaultStyleConfig } from './utils/mapStyle'
+import { getCamera, type CameraBookmark } from './utils/bookmarks'
+import { exportPresets, parsePresetFile, type Preset } from './utils/presets'
+import { downloadURL, downloadText } from './utils/downloadUtils'
+import useThemeURL from './hooks/useThemeURL'
+import useLUTGenerator from './hooks/useLUTGenerator'
+import useLivePreview from './hooks/useLivePreview'
+import useToggleShortcut from './hooks/useToggleShortcut'
+import useHistory from './hooks/useHistory'
+import useUndoShortcuts from './hooks/useUndoShortcuts'
+import usePresets from './hooks/usePresets'
+import useBookmarks from './hooks/useBookmarks'
 import './App.css'
 
+// Key that flips the map between the current grade and the original style
+const COMPARE_FLIP_KEY = 'b'
+const ORIGINAL_REFERENCE_ID = 'original'
+
+// Shared defaults used for resets; never mutated
+const DEFAULT_PARAMETERS = createDefaultParameters()
+
+// Names shown in the history list for each parameter
+const PARAMETER_LABELS: Record<keyof LUTParameters, string> = {
+  pipeline: 'Pipeline',
+  baseLUT: 'Base LUT',
+  exposure: 'Exposure',
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  hue: 'Hue',
+  saturation: 'Saturation',
+  value: 'Value',
+  vibrancy: 'Vibrancy',
+  crossProcess: 'Cross Process',
+  levels: 'Levels',
+  masterCurve: 'Master Curve',
+  redCurve: 'Red Curve',
+  greenCurve: 'Green Curve',
+  blueCurve: 'Blue Curve',
+  hueVsHueCurve: 'Hue vs Hue Curve',
+  hueVsSatCurve: 'Hue vs Saturation Curve',
+  hueVsLumCurve: 'Hue vs Luminance Curve',
+  lumVsSatCurve: 'Luma vs Saturation Curve',
+  curveInterpolation: 'Curve Interpolation',
+  lift: 'Lift',
+  liftLuminance: 'Lift Luminance',
+  liftStrength: 'Lift Strength',
+  gamma: 'Gamma',
+  gammaLuminance: 'Gamma Luminance',
+  gammaStrength: 'Gamma Strength',
+  gain: 'Gain',
+  gainLuminance: 'Gain Luminance',
+  gainStrength: 'Gain Strength',
+  offset: 'Offset',
+  offsetLuminance: 'Offset Luminance',
+  offsetStrength: 'Offset Strength',
+  toneRanges: 'Tone Ranges',
+  colorCorrections: 'Color Corrections'
+}
+
 function App() {
-  const [exposure, setExposure] = useState(0)
-  const [brightness, setBrightness] = useState(1)
-  const [contrast, setContrast] = useState(1)
-  const [hue, setHue] = useState(0)
-  const [saturation, setSaturation] = useState(1)
-  const [value, setValue] = useState(1)
-  const [vibrancy, setVibrancy] = useState(0)
-  const [crossProcess, setCrossProcess] = useState(0)
-
-  // Color wheel offsets for Lift, Gamma, Gain
-  const [lift, setLift] = useState({ x: 0, y: 0 })
-  const [liftStrength] = useState(1)
-  const [gamma, setGamma] = useState({ x: 0, y: 0 })
-  const [gammaStrength] = useState(1)
-  const [gain, setGain] = useState({ x: 0, y: 0 })
-  const [gainStrength] = useState(1)
-
-  // Color corrections (targeted color adjustments)
-  const [colorCorrections, setColorCorrections] = useState<ColorCorrection[]>([])
+  // Every grading control lives in a single parameter object so it can be
+  // serialized, shared, restored and undone as a whole
+  const history = useHistory(createDefaultParameters)
+  const params = history.present
+  const setParams = history.set
+  const [themeName, setThemeName] = useState('Untitled Theme')
+  // The basemap config is saved with the theme but isn't part of the grade
+  const [styleConfig, setStyleConfig] = useState(createDefaultStyleConfig)
+  const [themeError, setThemeError] = useState<string | null>(null)
+  const [presetError, setPresetError] = useState<string | null>(null)
+  const [baseLUTError, setBaseLUTError] = useState<string | null>(null)
   const [pickingColorForId, setPickingColorForId] = useState<string | null>(null)
+  const [cubeExportSize, setCubeExportSize] = useState<CubeSize>(MAPBOX_CUBE_SIZE)
+  const [isComparing, setIsComparing] = useState(false)
+  const [referenceId, setReferenceId] = useState(ORIGINAL_REFERENCE_ID)
+  const [isShowingOriginal, setIsShowingOriginal] = useState(false)
+  const [mapInstance, setMapInstance] = useState<MapboxMap | null>(null)
+  const [isShowingContactSheet, setIsShowingContactSheet] = useState(false)
+  const [mapLoadError, setMapLoadError] = useState<string | null>(null)
+  const [isUsingSamples, setIsUsingSamples] = useState(false)
+  const [colorVision, setColorVision] = useState<ColorVisionDeficiency>('none')
+  const [diagnosticsView, setDiagnosticsView] = useState<DiagnosticsView>('strip')
+  const [showZebra, setShowZebra] = useState(false)
+  const [mapFrame, setMapFrame] = useState<ImageData | null>(null)
+  const [isLevelsHistogramVisible, setIsLevelsHistogramVisible] = useState(false)
 
-  // Initialize curve points (5 points evenly spaced)
-  const [redCurve, setRedCurve] = useState<Point[]>([
-    { x: 0, y: 0 },
-    { x: 0.25, y: 0.25 },
-    { x: 0.5, y: 0.5 },
-    { x: 0.75, y: 0.75 },
-    { x: 1, y: 1 }
-  ])
-  const [greenCurve, setGreenCurve] = useState<Point[]>([
-    { x: 0, y: 0 },
-    { x: 0.25, y: 0.25 },
-    { x: 0.5, y: 0.5 },
-    { x: 0.75, y: 0.75 },
-    { x: 1, y: 1 }
-  ])
-  const [blueCurve, setBlueCurve] = useState<Point[]>([
-    { x: 0, y: 0 },
-    { x: 0.25, y: 0.25 },
-    { x: 0.5, y: 0.5 },
-    { x: 0.75, y: 0.75 },
-    { x: 1, y: 1 }
-  ])
-
-  // Generate LUT when sliders or curves change
-  const lutBase64 = useMemo(() => {
-    return generateLUT({
-      exposure,
-      brightness,
-      contrast,
-      hue,
-      saturation,
-      value,
-      vibrancy,
-      crossProcess,
-      redCurve,
-      greenCurve,
-      blueCurve,
-      lift,
-      liftStrength,
-      gamma,
-      gammaStrength,
-      gain,
-      gainStrength,
-      colorCorrections
-    })
-  }, [exposure, brightness, contrast, hue, saturation, value, vibrancy, crossProcess, redCurve, greenCurve, blueCurve, lift, liftStrength, gamma, gammaStrength, gain, gainStrength, colorCorrections])
+  // Changes to the same parameter within one gesture (a drag) are merged
+  const setParam = <K extends keyof LUTParameters>(key: K, value: LUTParameters[K]) => {
+    setParams(current => ({ ...current, [key]: value }), PARAMETER_LABELS[key], key)
+  }
+
+  const resetParam = (key: keyof LUTParameters) => {
+    setParams(current => ({ ...current, [key]: DEFAULT_PARAMETERS[key] }), `Reset ${PARAMETER_LABELS[key]}`)
+  }
+
+  const setColorCorrections = (corrections: ColorCorrection[]) => {
+    const previousCount = params.colorCorrections.length
+    if (corrections.length > previousCount) {
+      setParams(current => ({ ...current, colorCorrections: corrections }), 'Add Color Correction')
+    } else if (corrections.length < previousCount) {
+      setParams(current => ({ ...current, colorCorrections: corrections }), 'Remove Color Correction')
+    } else {
+      // Merge per correction, so editing another one starts a new step
+      const changed = corrections.find((correction, i) => correction !== params.colorCorrections[i])
+      setParams(
+        current => ({ ...current, colorCorrections: corrections }),
+        PARAMETER_LABELS.colorCorrections,
+        `colorCorrections:${changed?.id ?? ''}`
+      )
+    }
+  }
+
+  useUndoShortcuts(history.undo, history.redo)
+
+  const { presets, userPresets, addPreset, renamePreset, deletePreset, importPresets } = usePresets()
+
+  // Keep the theme in the URL so links restore the exact grade
+  const { error: themeURLError } = useThemeURL(params, styleConfig, themeName, (name, parameters, restoredStyleConfig) => {
+    history.reset(parameters, `Open "${name}"`)
+    setThemeName(name)
+    if (restoredStyleConfig) setStyleConfig(restoredStyleConfig)
+  })
+
+  // Generate LUT when sliders or curves change, off the main thread
+  const { lutCube, lutBase64, lutParams, clipping, colorCollapses, error: lutError } = useLUTGenerator(params)
+
+  // Drags over the controls preview on the GPU and commit the LUT on release
+  const { previewParams, beginGesture } = useLivePreview(params, lutParams)
 
   const copyLUTToClipboard = async () => {
     try {
@@ -88,12 +172,82 @@ function App() {
   }
 
   const downloadLUT = () => {
-    const link = document.createElement('a')
-    link.href = lutBase64
-    link.download = 'lut.png'
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+    downloadURL(lutBase64, 'lut.png')
+  }
+
+  // The PNG is always Mapbox's 32x32x32; .cube exports can use other sizes.
+  // The worker's cube is only reused when it matches the current parameters
+  const downloadCubeLUT = () => {
+    const cube = lutParams === params && cubeExportSize === lutCube.size
+      ? lutCube
+      : generateLUTCube(params, cubeExportSize)
+    downloadText(encodeLUTToCubeFile(cube, themeName), 'lut.cube')
+  }
+
+  const saveTheme = () => {
+    const json = JSON.stringify(serializeTheme(params, themeName, styleConfig), null, 2)
+    const filename = `${themeName.trim().replace(/[^\w-]+/g, '-') || 'theme'}.json`
+    downloadText(json, filename, 'application/json')
+  }
+
+  const loadTheme = async (file: File) => {
+    try {
+      const { name, parameters, styleConfig: loadedStyleConfig } = parseThemeDocument(JSON.parse(await file.text()))
+      setParams(() => parameters, `Load "${name}"`)
+      setThemeName(name)
+      if (loadedStyleConfig) setStyleConfig(loadedStyleConfig)
+      setThemeError(null)
+    } catch (err) {
+      console.error('Failed to load theme:', err)
+      setThemeError(err instanceof Error ? err.message : 'Failed to load theme')
+    }
+  }
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await buildShareURL(params, themeName, styleConfig))
+      console.log('Share link copied to clipboard')
+    } catch (err) {
+      console.error('Failed to copy share link:', err)
+    }
+  }
+
+  const applyPreset = (preset: Preset) => {
+    // Looks are graded on top of an imported base LUT, so keep it unless the
+    // preset brings its own
+    setParams(current => ({
+      ...preset.parameters,
+      baseLUT: preset.parameters.baseLUT ?? current.baseLUT
+    }), `Apply "${preset.name}"`)
+  }
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      importPresets(parsePresetFile(JSON.parse(await file.text())))
+      setPresetError(null)
+    } catch (err) {
+      console.error('Failed to import presets:', err)
+      setPresetError(err instanceof Error ? err.message : 'Failed to import presets')
+    }
+  }
+
+  const handleExportPresets = () => {
+    downloadText(exportPresets(userPresets), 'presets.json', 'application/json')
+  }
+
+  const handleImportBaseLUT = async (file: File) => {
+    try {
+      setParam('baseLUT', await importLUTFile(file))
+      setBaseLUTError(null)
+    } catch (err) {
+      console.error('Failed to import LUT:', err)
+      setBaseLUTError(err instanceof Error ? err.message : 'Failed to import LUT')
+    }
+  }
+
+  const clearBaseLUT = () => {
+    resetParam('baseLUT')
+    setBaseLUTError(null)
   }
 
   const handlePickColor = (correctionId: string) => {
@@ -102,17 +256,88 @@ function App() {
 
   const handleColorPicked = (color: { r: number; g: number; b: number }) => {
     if (pickingColorForId) {
-      setColorCorrections(corrections =>
-        corrections.map(c =>
+      setParams(current => ({
+        ...current,
+        colorCorrections: current.colorCorrections.map(c =>
           c.id === pickingColorForId
             ? { ...c, targetColor: color }
             : c
         )
-      )
+      }), 'Pick Correction Color')
       setPickingColorForId(null)
     }
   }
 
+  const { bookmarks, addBookmark, renameBookmark, deleteBookmark } = useBookmarks()
+
+  const goToBookmark = (bookmark: CameraBookmark) => {
+    mapInstance?.jumpTo({
+      center: bookmark.center,
+      zoom: bookmark.zoom,
+      bearing: bookmark.bearing,
+      pitch: bookmark.pitch
+    })
+    setIsShowingContactSheet(false)
+  }
+
+  const saveCurrentView = () => {
+    if (!mapInstance) return
+    addBookmark(`Location ${bookmarks.length + 1}`, getCamera(mapInstance))
+  }
+
+  // Fall back to sample images when the live map can't be shown
+  const mapUnavailableReason = HAS_ACCESS_TOKEN ? mapLoadError : 'no Mapbox access token is set'
+  const isShowingSamples = isUsingSamples || mapUnavailableReason !== null
+
+  // Color vision simulation changes what's shown, never what's exported
+  const displayCube = useMemo(() => simulateColorVisionCube(lutCube, colorVision), [lutCube, colorVision])
+  const displayLUT = useMemo(
+    () => colorVision === 'none' ? lutBase64 : encodeLUTToPNG(displayCube),
+    [colorVision, lutBase64, displayCube]
+  )
+  const contrastResults = useMemo(() => checkContrast(lutCube), [lutCube])
+
+  // Scopes and the levels histogram read the live map only while one is shown
+  const handleMapFrame = useCallback((source: HTMLCanvasElement) => setMapFrame(readFrame(source)), [])
+  const isReadingFrames = (isScopeView(diagnosticsView) || isLevelsHistogramVisible) && !isShowingSamples
+  const liveFrame = isReadingFrames ? mapFrame : null
+  const mapHistogram = useMemo(
+    () => liveFrame && isLevelsHistogramVisible ? computeHistogram(liveFrame) : null,
+    [liveFrame, isLevelsHistogramVisible]
+  )
+
+  // Auto levels reads a frame of its own, whether or not frames are streaming
+  const canAutoLevel = mapInstance !== null && !isShowingSamples
+  const applyAutoLevels = (perChannel: boolean) => {
+    const frame = mapInstance && readFrame(mapInstance.getCanvas())
+    if (!frame) return
+    const histogram = computeHistogram(frame)
+    setParams(current => ({
+      ...current,
+      levels: perChannel
+        ? autoChannelLevels(histogram, current.levels)
+        : autoMasterLevels(histogram, current.levels)
+    }), perChannel ? 'Auto Color Levels' : 'Auto Levels')
+  }
+
+  // Before/after comparison against the original style or a preset
+  const referencePreset = presets.find(preset => preset.id === referenceId) ?? null
+  const referenceLUT = useMemo(() => {
+    const cube = referencePreset ? generateLUTCube(referencePreset.parameters) : createIdentityLUTCube()
+    return encodeLUTToPNG(simulateColorVisionCube(cube, colorVision))
+  }, [referencePreset, colorVision])
+  const originalLUT = useMemo(
+    () => colorVision === 'none'
+      ? getIdentityLUTPNG()
+      : encodeLUTToPNG(simulateColorVisionCube(createIdentityLUTCube(), colorVision)),
+    [colorVision]
+  )
+  const toggleShowOriginal = useCallback(() => setIsShowingOriginal(current => !current), [])
+  useToggleShortcut(COMPARE_FLIP_KEY, toggleShowOriginal)
+
+  const mapReference: MapReference | null = isComparing
+    ? { lut: referenceLUT, label: referencePreset?.name ?? 'Original' }
+    : null
 
 
   return (
@@ -132,19 +357,106 @@ function App() {
             </a>
             {' '}Theme Editor
           </h1>
-          <p className="text-xs text-gray-400">
+          <p className="text-xs text-gray-400 mb-4">
             The Mapbox Standard Style accepts a Look-Up Table (LUT) to apply complex color transformations. Use the controls below to adjust various parameters and see how the LUT affects the map in real-time.
           </p>
+          <ThemeFileControls
+            name={themeName}
+            error={themeError ?? themeURLError}
+            onNameChange={setThemeName}
+            onSave={saveTheme}
+            onLoad={loadTheme}
+            onCopyLink={copyShareLink}
+            linkExcludesBaseLUT={params.baseLUT !== null}
+          />
+        </div>
+
+        <div className="px-4 py-3 border-b border-gray-700">
+          <HistoryPanel
+            labels={history.entries.map(entry => entry.label)}
+            index={history.index}
+            canUndo={history.canUndo}
+            canRedo={history.canRedo}
+            onUndo={history.undo}
+            onRedo={history.redo}
+            onJumpTo={history.jumpTo}
+          />
         </div>
 
         {/* Scrollable Controls */}
-        <div className="flex-1 overflow-y-auto p-4">
+        <div className="flex-1 overflow-y-auto p-4" onPointerDown={beginGesture}>
           <div className="space-y-2">
+            <div className="mb-6">
+              <BaseLUTPanel
+                name={params.baseLUT?.title ?? null}
+                error={baseLUTError}
+                onImport={handleImportBaseLUT}
+                onClear={clearBaseLUT}
+              />
+            </div>
+
+            <div className="mb-6">
+              <PresetPanel
+                presets={presets}
+                error={presetError}
+                onApply={applyPreset}
+                onSaveCurrent={() => addPreset(themeName, params)}
+                onRename={renamePreset}
+                onDelete={deletePreset}
+                onImport={handleImportPresets}
+                onExport={handleExportPresets}
+              />
+            </div>
+
+            <div className="mb-6">
+              <PipelinePanel
+                pipeline={params.pipeline}
+                onChange={(pipeline) => setParam('pipeline', pipeline)}
+                onReset={() => resetParam('pipeline')}
+              />
+            </div>
+
+            <div className="mb-6">
+              <StyleConfigPanel
+                config={styleConfig}
+                onChange={setStyleConfig}
+                onReset={() => setStyleConfig(createDefaultStyleConfig())}
+              />
+            </div>
+
+            <div className="mb-6">
+              <AccessibilityPanel
+                colorVision={colorVision}
+                onColorVisionChange={setColorVision}
+                collapses={colorCollapses}
+              />
+            </div>
+
+            <div className="mb-6">
+              <ContrastPanel results={contrastResults} />
+            </div>
+
+            <div className="mb-6">
+              <ClippingPanel report={clipping} showZebra={showZebra} onShowZebraChange={setShowZebra} />
+            </div>
+
+            <div className="mb-6">
+              <BookmarkPanel
+                bookmarks={bookmarks}
+                onGoTo={goToBookmark}
+                onSaveCurrent={saveCurrentView}
+                onRename={renameBookmark}
+                onDelete={deleteBookmark}
+                isShowingContactSheet={isShowingContactSheet}
+                onToggleContactSheet={() => setIsShowingContactSheet(current => !current)}
+              />
+            </div>
+
             <ParameterSlider
               label="Exposure"
-              value={exposure}
-              onChange={setExposure}
-              onReset={() => setExposure(0)}
+              value={params.exposure}
+              onChange={(v) => setParam('exposure', v)}
+              onReset={() => resetParam('exposure')}
               min={-2}
               max={2}
               step={0.1}
@@ -152,9 +464,9 @@ function App() {
 
             <ParameterSlider
               label="Brightness"
-              value={brightness}
-              onChange={setBrightness}
-              onReset={() => setBrightness(1)}
+              value={params.brightness}
+              onChange={(v) => setParam('brightness', v)}
+              onReset={() => resetParam('brightness')}
               min={0.25}
               max={1.75}
               step={0.01}
@@ -162,9 +474,9 @@ function App() {
 
             <ParameterSlider
               label="Contrast"
-              value={contrast}
-              onChange={setContrast}
-              onReset={() => setContrast(1)}
+              value={params.contrast}
+              onChange={(v) => setParam('contrast', v)}
+              onReset={() => resetParam('contrast')}
               min={-2}
               max={4}
               step={0.1}
@@ -172,9 +484,9 @@ function App() {
 
             <ParameterSlider
               label="Hue"
-              value={hue}
-              onChange={setHue}
-              onReset={() => setHue(0)}
+              value={params.hue}
+              onChange={(v) => setParam('hue', v)}
+              onReset={() => resetParam('hue')}
               min={-180}
               max={180}
               step={1}
@@ -183,9 +495,9 @@ function App() {
 
             <ParameterSlider
               label="Saturation"
-              value={saturation}
-              onChange={setSaturation}
-              onReset={() => setSaturation(1)}
+              value={params.saturation}
+              onChange={(v) => setParam('saturation', v)}
+              onReset={() => resetParam('saturation')}
               min={0}
               max={2}
               step={0.1}
@@ -193,9 +505,9 @@ function App() {
 
             <ParameterSlider
               label="Value"
-              value={value}
-              onChange={setValue}
-              onReset={() => setValue(1)}
+              value={params.value}
+              onChange={(v) => setParam('value', v)}
+              onReset={() => resetParam('value')}
               min={0}
               max={2}
               step={0.1}
@@ -203,9 +515,9 @@ function App() {
 
             <ParameterSlider
               label="Vibrancy"
-              value={vibrancy}
-              onChange={setVibrancy}
-              onReset={() => setVibrancy(0)}
+              value={params.vibrancy}
+              onChange={(v) => setParam('vibrancy', v)}
+              onReset={() => resetParam('vibrancy')}
               min={0}
               max={2}
               step={0.1}
@@ -213,55 +525,116 @@ function App() {
 
             <ParameterSlider
               label="Cross Process"
-              value={crossProcess}
-              onChange={setCrossProcess}
-              onReset={() => setCrossProcess(0)}
+              value={params.crossProcess}
+              onChange={(v) => setParam('crossProcess', v)}
+              onReset={() => resetParam('crossProcess')}
               min={0}
               max={1}
               step={0.1}
             />
 
+            <div className="mt-6">
+              <LevelsPanel
+                levels={params.levels}
+                onChange={(levels) => setParam('levels', levels)}
+                onReset={() => resetParam('levels')}
+                histogram={mapHistogram}
+                onHistogramVisibleChange={setIsLevelsHistogramVisible}
+                canAutoLevel={canAutoLevel}
+                onAutoLevels={applyAutoLevels}
+              />
+            </div>
+
             {/* Color Curves */}
             <div className="mt-6 space-y-3">
-              <h3 className="text-sm font-semibold">Color Curves</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Color Curves</h3>
+                <select
+                  value={params.curveInterpolation}
+                  onChange={(e) => setParam('curveInterpolation', e.target.value as CurveInterpolation)}
+                  className="px-1 py-0.5 text-xs bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Curve interpolation"
+                >
+                  {CURVE_INTERPOLATIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <ColorCurve
+                color="#e5e7eb"
+                label="Master (RGB)"
+                points={params.masterCurve}
+                interpolation={params.curveInterpolation}
+                onChange={(points) => setParam('masterCurve', points)}
+                onReset={() => resetParam('masterCurve')}
+              />
               <ColorCurve
                 color="#ef4444"
                 label="Red"
-                points={redCurve}
-                onChange={setRedCurve}
-                onReset={() => setRedCurve([
-                  { x: 0, y: 0 },
-                  { x: 0.25, y: 0.25 },
-                  { x: 0.5, y: 0.5 },
-                  { x: 0.75, y: 0.75 },
-                  { x: 1, y: 1 }
-                ])}
+                points={params.redCurve}
+                interpolation={params.curveInterpolation}
+                onChange={(points) => setParam('redCurve', points)}
+                onReset={() => resetParam('redCurve')}
               />
               <ColorCurve
                 color="#22c55e"
                 label="Green"
-                points={greenCurve}
-                onChange={setGreenCurve}
-                onReset={() => setGreenCurve([
-                  { x: 0, y: 0 },
-                  { x: 0.25, y: 0.25 },
-                  { x: 0.5, y: 0.5 },
-                  { x: 0.75, y: 0.75 },
-                  { x: 1, y: 1 }
-                ])}
+                points={params.greenCurve}
+                interpolation={params.curveInterpolation}
+                onChange={(points) => setParam('greenCurve', points)}
+                onReset={() => resetParam('greenCurve')}
               />
               <ColorCurve
                 color="#3b82f6"
                 label="Blue"
-                points={blueCurve}
-                onChange={setBlueCurve}
-                onReset={() => setBlueCurve([
-                  { x: 0, y: 0 },
-                  { x: 0.25, y: 0.25 },
-                  { x: 0.5, y: 0.5 },
-                  { x: 0.75, y: 0.75 },
-                  { x: 1, y: 1 }
-                ])}
+                points={params.blueCurve}
+                interpolation={params.curveInterpolation}
+                onChange={(points) => setParam('blueCurve', points)}
+                onReset={() => resetParam('blueCurve')}
+              />
+            </div>
+
+            {/* Hue and Luma Curves */}
+            <div className="mt-6 space-y-3">
+              <h3 className="text-sm font-semibold">Hue &amp; Luma Curves</h3>
+              <ColorCurve
+                color="#e5e7eb"
+                label="Hue vs Hue"
+                points={params.hueVsHueCurve}
+                interpolation={params.curveInterpolation}
+                periodic
+                baseline={0.5}
+                onChange={(points) => setParam('hueVsHueCurve', points)}
+                onReset={() => resetParam('hueVsHueCurve')}
+              />
+              <ColorCurve
+                color="#e5e7eb"
+                label="Hue vs Saturation"
+                points={params.hueVsSatCurve}
+                interpolation={params.curveInterpolation}
+                periodic
+                baseline={0.5}
+                onChange={(points) => setParam('hueVsSatCurve', points)}
+                onReset={() => resetParam('hueVsSatCurve')}
+              />
+              <ColorCurve
+                color="#e5e7eb"
+                label="Hue vs Luminance"
+                points={params.hueVsLumCurve}
+                interpolation={params.curveInterpolation}
+                periodic
+                baseline={0.5}
+                onChange={(points) => setParam('hueVsLumCurve', points)}
+                onReset={() => resetParam('hueVsLumCurve')}
+              />
+              <ColorCurve
+                color="#e5e7eb"
+                label="Luma vs Saturation"
+                points={params.lumVsSatCurve}
+                interpolation={params.curveInterpolation}
+                baseline={0.5}
+                onChange={(points) => setParam('lumVsSatCurve', points)}
+                onReset={() => resetParam('lumVsSatCurve')}
               />
             </div>
 
@@ -271,31 +644,66 @@ function App() {
               <div className="flex gap-3">
                 <ColorWheel
                   label="Lift"
-                  offset={lift}
-                  onChange={setLift}
-                  onReset={() => setLift({ x: 0, y: 0 })}
+                  offset={params.lift}
+                  onChange={(offset) => setParam('lift', offset)}
+                  onReset={() => resetParam('lift')}
+                  luminance={params.liftLuminance}
+                  onLuminanceChange={(value) => setParam('liftLuminance', value)}
+                  onLuminanceReset={() => resetParam('liftLuminance')}
+                  strength={params.liftStrength}
+                  onStrengthChange={(value) => setParam('liftStrength', value)}
+                  onStrengthReset={() => resetParam('liftStrength')}
                 />
                 <ColorWheel
                   label="Gamma"
-                  offset={gamma}
-                  onChange={setGamma}
-                  onReset={() => setGamma({ x: 0, y: 0 })}
+                  offset={params.gamma}
+                  onChange={(offset) => setParam('gamma', offset)}
+                  onReset={() => resetParam('gamma')}
+                  luminance={params.gammaLuminance}
+                  onLuminanceChange={(value) => setParam('gammaLuminance', value)}
+                  onLuminanceReset={() => resetParam('gammaLuminance')}
+                  strength={params.gammaStrength}
+                  onStrengthChange={(value) => setParam('gammaStrength', value)}
+                  onStrengthReset={() => resetParam('gammaStrength')}
                 />
               </div>
               <div className="flex gap-3">
                 <ColorWheel
                   label="Gain"
-                  offset={gain}
-                  onChange={setGain}
-                  onReset={() => setGain({ x: 0, y: 0 })}
+                  offset={params.gain}
+                  onChange={(offset) => setParam('gain', offset)}
+                  onReset={() => resetParam('gain')}
+                  luminance={params.gainLuminance}
+                  onLuminanceChange={(value) => setParam('gainLuminance', value)}
+                  onLuminanceReset={() => resetParam('gainLuminance')}
+                  strength={params.gainStrength}
+                  onStrengthChange={(value) => setParam('gainStrength', value)}
+                  onStrengthReset={() => resetParam('gainStrength')}
+                />
+                <ColorWheel
+                  label="Offset"
+                  offset={params.offset}
+                  onChange={(offset) => setParam('offset', offset)}
+                  onReset={() => resetParam('offset')}
+                  luminance={params.offsetLuminance}
+                  onLuminanceChange={(value) => setParam('offsetLuminance', value)}
+                  onLuminanceReset={() => resetParam('offsetLuminance')}
+                  strength={params.offsetStrength}
+                  onStrengthChange={(value) => setParam('offsetStrength', value)}
+                  onStrengthReset={() => resetParam('offsetStrength')}
                 />
               </div>
+              <ToneRangePanel
+                ranges={params.toneRanges}
+                onChange={(ranges) => setParam('toneRanges', ranges)}
+                onReset={() => resetParam('toneRanges')}
+              />
             </div>
 
             {/* Color Corrections */}
             <div className="mt-6">
               <ColorCorrectionPanel
-                corrections={colorCorrections}
+                corrections={params.colorCorrections}
                 onChange={setColorCorrections}
                 onPickColor={handlePickColor}
               />
@@ -321,25 +729,86 @@ function App() {
 
       {/* Right Side - Map */}
       <div className="flex-1 bg-gray-900 relative">
-        <Map
-          lutBase64={lutBase64}
-          isPickingColor={pickingColorForId !== null}
-          onColorPicked={handleColorPicked}
-        />
+        {HAS_ACCESS_TOKEN && (
+          <Map
+            lutBase64={displayLUT}
+            styleConfig={styleConfig}
+            previewParams={previewParams}
+            colorVision={colorVision}
+            reference={mapReference}
+            originalLUT={isShowingOriginal ? originalLUT : null}
+            isPickingColor={pickingColorForId !== null}
+            onColorPicked={handleColorPicked}
+            onLoad={setMapInstance}
+            onLoadError={setMapLoadError}
+            onFrame={isReadingFrames ? handleMapFrame : undefined}
+            showZebra={showZebra && !isShowingSamples}
+          />
+        )}
+
+        {isShowingSamples && (
+          <OfflinePreview
+            lutCube={displayCube}
+            reason={mapUnavailableReason}
+            showOriginal={isShowingOriginal}
+            onClose={mapUnavailableReason === null ? () => setIsUsingSamples(false) : undefined}
+          />
+        )}
+
+        {isShowingContactSheet && !isShowingSamples && (
+          <ContactSheet
+            bookmarks={bookmarks}
+            lut={displayLUT}
+            styleConfig={styleConfig}
+            onSelect={goToBookmark}
+          />
+        )}
+
+        {!isShowingContactSheet && !isShowingSamples && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 flex gap-2">
+            <CompareControls
+              isComparing={isComparing}
+              onToggleComparing={() => setIsComparing(current => !current)}
+              referenceId={referenceId}
+              references={[
+                { id: ORIGINAL_REFERENCE_ID, name: 'Original' },
+                ...presets.map(preset => ({ id: preset.id, name: preset.name }))
+              ]}
+              onReferenceChange={setReferenceId}
+              flipKey={COMPARE_FLIP_KEY}
+              isShowingOriginal={isShowingOriginal}
+            />
+            <button
+              onClick={() => setIsUsingSamples(true)}
+              className="px-3 bg-gray-800/90 hover:bg-gray-700 rounded-lg shadow-lg border border-gray-700 text-xs transition-colors"
+              title="Preview the theme on bundled sketches or dropped screenshots"
+            >
+              Sample images
+            </button>
+          </div>
+        )}
 
         {/* Floating LUT Preview */}
-        {lutBase64 && (
+        {lutBase64 && !isShowingContactSheet && (
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-gray-800 p-3 rounded-lg shadow-lg border border-gray-700 min-w-[500px]">
             <h2 className="text-xs font-semibold mb-2 text-gray-300">LUT Preview</h2>
+            {lutError && (
+              <p className="text-xs text-red-400 mb-2">
+                Failed to generate the LUT ({lutError}); the map shows the last grade that worked
+              </p>
+            )}
 
-            <img
-              src={lutBase64}
-              alt="LUT Preview"
-              className="w-full border border-gray-700 rounded mb-3"
-              style={{ imageRendering: 'pixelated' }}
-            />
+            <div className="mb-3">
+              <DiagnosticsPanel
+                view={diagnosticsView}
+                onViewChange={setDiagnosticsView}
+                lutBase64={lutBase64}
+                lutCube={lutCube}
+                frame={liveFrame}
+              />
+            </div>
                         <p className="text-xs text-gray-400 mb-3">
-              You can download your custom LUT as a PNG to use in Mapbox Studio, or copy the Base64 string to use directly in your Mapbox GL JS or Mobile Maps SDK projects.
+              You can download your custom LUT as a PNG to use in Mapbox Studio, or copy the Base64 string to use directly in your Mapbox GL JS or Mobile Maps SDK projects. The .cube file works in DaVinci Resolve, Photoshop and other grading tools.
             </p>
             <div className="mt-2 flex gap-2">
               <button
@@ -349,6 +818,25 @@ function App() {
                 <DownloadIcon className="w-3 h-3" />
                 Download (PNG)
               </button>
+              <div className="flex-1 flex">
+                <button
+                  onClick={downloadCubeLUT}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-[10px] bg-gray-700 hover:bg-gray-600 rounded-l transition-colors"
+                >
+                  <DownloadIcon className="w-3 h-3" />
+                  Download (.cube)
+                </button>
+                <select
+                  value={cubeExportSize}
+                  onChange={(e) => setCubeExportSize(Number(e.target.value) as CubeSize)}
+                  className="px-1 text-[10px] bg-gray-700 hover:bg-gray-600 border-l border-gray-600 rounded-r focus:outline-none"
+                  title=".cube size"
+                >
+                  {CUBE_SIZES.map(size => (
+                    <option key={size} value={size}>{size}³</option>
+                  ))}
+                </select>
+              </div>
               <button
                 onClick={copyLUTToClipboard}
                 className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-[10px] bg-gray-700 hover:bg-gray-600 rounded transition-colors"
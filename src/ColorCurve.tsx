@@ -1,17 +1,50 @@
 import { useEffect, useRef, useState } from 'react'
 import * as THREE from 'three'
 import ResetButton from './components/ResetButton'
+import PointValuePopover from './components/PointValuePopover'
 import type { Point } from './utils/colorUtils'
+import { evaluateCurve, sampleCurve, type CurveInterpolation } from './utils/curveUtils'
+import { getArrowNudge } from './utils/keyboardUtils'
 
 interface ColorCurveProps {
   color: string
   label: string
   points: Point[]
+  interpolation: CurveInterpolation
+  periodic?: boolean // Wraps around at the ends, for curves over hue
+  baseline?: number // Y value where the curve has no effect, drawn as a guide
   onChange: (points: Point[]) => void
   onReset?: () => void
 }
 
-export default function ColorCurve({ color, label, points, onChange, onReset }: ColorCurveProps) {
+// Point on the curve halfway between two control points (0-1 coordinates)
+const getMidpoint = (points: Point[], index: number, interpolation: CurveInterpolation, periodic: boolean): Point => {
+  const x = (points[index].x + points[index + 1].x) / 2
+  return { x, y: evaluateCurve(x, points, interpolation, periodic) }
+}
+
+// Keep a moved point inside the graph and between its neighbours
+const constrainPoint = (points: Point[], index: number, point: Point): Point => {
+  const minX = index > 0 ? points[index - 1].x + 0.001 : 0
+  const maxX = index < points.length - 1 ? points[index + 1].x - 0.001 : 1
+  return {
+    x: Math.max(minX, Math.min(maxX, point.x)),
+    y: Math.max(0, Math.min(1, point.y))
+  }
+}
+
+const isEndpoint = (points: Point[], index: number) => index === 0 || index === points.length - 1
+
+export default function ColorCurve({
+  color,
+  label,
+  points,
+  interpolation,
+  periodic = false,
+  baseline,
+  onChange,
+  onReset
+}: ColorCurveProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const sceneRef = useRef<THREE.Scene | null>(null)
@@ -19,8 +52,12 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
   const [draggedMidpointIndex, setDraggedMidpointIndex] = useState<number | null>(null)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
   const [aspectRatio, setAspectRatio] = useState(1)
 
+  // The selection can outlive its point when the curve is reset or undone
+  const selected = selectedIndex !== null && selectedIndex < points.length ? selectedIndex : null
+
   // Initialize Three.js scene
   useEffect(() => {
     if (!canvasRef.current || !containerRef.current) return
@@ -66,15 +103,9 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
       scene.remove(scene.children[0])
     }
 
-    // Create curve from points using CatmullRomCurve3
-    const curvePoints = points.map(p => new THREE.Vector3(p.x * aspectRatio, p.y, 0))
-    const curve = new THREE.CatmullRomCurve3(curvePoints)
-    curve.curveType = 'catmullrom'
-    curve.tension = 0.5
-
-    // Create line geometry from curve
+    // Sample the same curve model the LUT uses
     const curveGeometry = new THREE.BufferGeometry().setFromPoints(
-      curve.getPoints(100)
+      sampleCurve(points, interpolation, 100, periodic).map(p => new THREE.Vector3(p.x * aspectRatio, p.y, 0))
     )
     const curveMaterial = new THREE.LineBasicMaterial({ color })
     const curveLine = new THREE.Line(curveGeometry, curveMaterial)
@@ -103,6 +134,27 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
       scene.add(new THREE.Line(gridGeometry, gridMaterial))
     }
 
+    // Add neutral baseline
+    if (baseline !== undefined) {
+      const baselineGeometry = new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(0, baseline, -0.05),
+        new THREE.Vector3(aspectRatio, baseline, -0.05)
+      ])
+      scene.add(new THREE.Line(baselineGeometry, new THREE.LineBasicMaterial({ color: 0x6b7280 })))
+    }
+
+    // Add hue strip along the bottom for curves over hue
+    if (periodic) {
+      const segments = 36
+      for (let i = 0; i < segments; i++) {
+        const stripGeometry = new THREE.PlaneGeometry(aspectRatio / segments, 0.05)
+        const stripMaterial = new THREE.MeshBasicMaterial({ color: new THREE.Color().setHSL((i + 0.5) / segments, 1, 0.5) })
+        const strip = new THREE.Mesh(stripGeometry, stripMaterial)
+        strip.position.set((i + 0.5) / segments * aspectRatio, 0.025, -0.05)
+        scene.add(strip)
+      }
+    }
+
     // Add border
     const borderGeometry = new THREE.BufferGeometry().setFromPoints([
       new THREE.Vector3(0, 0, 0),
@@ -117,7 +169,7 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
     // Add midpoint circles (small circles between control points)
     for (let i = 0; i < points.length - 1; i++) {
       // Get midpoint along the curve
-      const curvePoint = curve.getPointAt((i + 0.5) / (points.length - 1))
+      const curvePoint = getMidpoint(points, i, interpolation, periodic)
       
       // Draw small circle (white stroke, transparent fill)
       const midGeometry = new THREE.CircleGeometry(0.024, 16)
@@ -127,14 +179,14 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
         opacity: draggedMidpointIndex === i ? 1 : 0.5
       })
       const midCircle = new THREE.Mesh(midGeometry, midMaterial)
-      midCircle.position.set(curvePoint.x, curvePoint.y, 0.09)
+      midCircle.position.set(curvePoint.x * aspectRatio, curvePoint.y, 0.09)
       scene.add(midCircle)
       
       // Add white stroke for midpoint
       const midStrokeGeometry = new THREE.RingGeometry(0.024, 0.030, 16)
       const midStrokeMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff })
       const midStroke = new THREE.Mesh(midStrokeGeometry, midStrokeMaterial)
-      midStroke.position.set(curvePoint.x, curvePoint.y, 0.09)
+      midStroke.position.set(curvePoint.x * aspectRatio, curvePoint.y, 0.09)
       scene.add(midStroke)
     }
 
@@ -149,83 +201,126 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
       circle.position.set(point.x * aspectRatio, point.y, 0.1)
       scene.add(circle)
       
-      // White stroke
-      const strokeGeometry = new THREE.RingGeometry(0.04, 0.05, 32)
-      const strokeMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff })
+      // White stroke, blue when selected for keyboard editing
+      const strokeGeometry = new THREE.RingGeometry(0.04, selected === index ? 0.06 : 0.05, 32)
+      const strokeMaterial = new THREE.MeshBasicMaterial({ color: selected === index ? 0x3b82f6 : 0xffffff })
       const stroke = new THREE.Mesh(strokeGeometry, strokeMaterial)
       stroke.position.set(point.x * aspectRatio, point.y, 0.1)
       scene.add(stroke)
     })
 
     renderer.render(scene, camera)
-  }, [points, color, draggedIndex, draggedMidpointIndex, aspectRatio])
+  }, [points, interpolation, periodic, baseline, color, draggedIndex, draggedMidpointIndex, selected, aspectRatio])
+
+  // Convert a pointer position to curve coordinates (0-1)
+  const toCurve = (e: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: 1 - (e.clientY - rect.top) / rect.height // Flip Y
+    }
+  }
+
+  const findClosestPoint = (x: number, y: number, maxDist: number): number | null => {
+    let closestIndex: number | null = null
+    let closestDist = maxDist
+    points.forEach((point, index) => {
+      const dist = Math.sqrt((point.x - x) ** 2 + (point.y - y) ** 2)
+      if (dist < closestDist) {
+        closestDist = dist
+        closestIndex = index
+      }
+    })
+    return closestIndex
+  }
+
+  const updatePoint = (index: number, point: Point) => {
+    const newPoints = [...points]
+    newPoints[index] = constrainPoint(points, index, point)
+    onChange(newPoints)
+  }
 
-  // Handle mouse interactions
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
+  const deletePoint = (index: number) => {
+    if (isEndpoint(points, index)) return
+    onChange(points.filter((_, i) => i !== index))
+    setSelectedIndex(null)
+  }
 
-    const x = (e.clientX - rect.left) / rect.width
-    const y = 1 - (e.clientY - rect.top) / rect.height // Flip Y
+  // Handle pointer interactions. Capturing the pointer keeps the drag going
+  // when it leaves the canvas
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCurve(e)
+    // Fingers get larger targets
+    const scale = e.pointerType === 'touch' ? 2 : 1
 
     // Check for midpoint clicks first
-    const curvePoints = points.map(p => new THREE.Vector3(p.x * aspectRatio, p.y, 0))
-    const curve = new THREE.CatmullRomCurve3(curvePoints)
-    curve.curveType = 'catmullrom'
-    curve.tension = 0.5
-
     for (let i = 0; i < points.length - 1; i++) {
-      const curvePoint = curve.getPointAt((i + 0.5) / (points.length - 1))
-      const dist = Math.sqrt(((curvePoint.x / aspectRatio) - x) ** 2 + (curvePoint.y - y) ** 2)
-      if (dist < 0.06) {
+      const curvePoint = getMidpoint(points, i, interpolation, periodic)
+      const dist = Math.sqrt((curvePoint.x - x) ** 2 + (curvePoint.y - y) ** 2)
+      if (dist < 0.06 * scale) {
         setDraggedMidpointIndex(i)
         // Insert new point at the midpoint
         const newPoints = [...points]
-        newPoints.splice(i + 1, 0, { x: curvePoint.x / aspectRatio, y: curvePoint.y })
+        newPoints.splice(i + 1, 0, curvePoint)
         onChange(newPoints)
+        e.currentTarget.setPointerCapture(e.pointerId)
         setDraggedIndex(i + 1)
+        setSelectedIndex(i + 1)
         return
       }
     }
 
-    // Find closest control point
-    let closestIndex = 0
-    let closestDist = Infinity
-    points.forEach((point, index) => {
-      const dist = Math.sqrt((point.x - x) ** 2 + (point.y - y) ** 2)
-      if (dist < closestDist) {
-        closestDist = dist
-        closestIndex = index
-      }
-    })
-
-    if (closestDist < 0.10) {
+    const closestIndex = findClosestPoint(x, y, 0.10 * scale)
+    if (closestIndex !== null) {
+      e.currentTarget.setPointerCapture(e.pointerId)
       setDraggedIndex(closestIndex)
+      setSelectedIndex(closestIndex)
     }
   }
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (draggedIndex === null) return
+    updatePoint(draggedIndex, toCurve(e))
+  }
 
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+    setDraggedIndex(null)
+    setDraggedMidpointIndex(null)
+  }
 
-    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
-    const y = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height))
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCurve(e)
+    const index = findClosestPoint(x, y, 0.10)
+    if (index !== null) deletePoint(index)
+  }
 
-    // Constrain X to be between adjacent points
-    const minX = draggedIndex > 0 ? points[draggedIndex - 1].x + 0.001 : 0
-    const maxX = draggedIndex < points.length - 1 ? points[draggedIndex + 1].x - 0.001 : 1
-    const constrainedX = Math.max(minX, Math.min(maxX, x))
+  // Arrow keys nudge the selected point, [ and ] change the selection and
+  // Delete removes it
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.key === '[' || e.key === ']') {
+      e.preventDefault()
+      const step = e.key === ']' ? 1 : -1
+      const current = selected ?? (step > 0 ? -1 : points.length)
+      setSelectedIndex(Math.max(0, Math.min(points.length - 1, current + step)))
+      return
+    }
 
-    const newPoints = [...points]
-    newPoints[draggedIndex] = { x: constrainedX, y }
-    onChange(newPoints)
-  }
+    if (selected === null) return
 
-  const handleMouseUp = () => {
-    setDraggedIndex(null)
-    setDraggedMidpointIndex(null)
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault()
+      deletePoint(selected)
+      return
+    }
+
+    const nudge = getArrowNudge(e)
+    if (!nudge) return
+    e.preventDefault()
+    const point = points[selected]
+    updatePoint(selected, { x: point.x + nudge.dx, y: point.y + nudge.dy })
   }
 
   return (
@@ -234,16 +329,31 @@ export default function ColorCurve({ color, label, points, onChange, onReset }:
         <div className="flex items-center gap-1">
           <label className="text-xs font-medium">{label}</label>
           {onReset && <ResetButton onReset={onReset} />}
+          <PointValuePopover
+            title={`${label} point`}
+            point={selected !== null ? points[selected] : null}
+            onChange={(point) => {
+              if (selected !== null) updatePoint(selected, point)
+            }}
+            min={0}
+            max={1}
+            xLabel="In"
+            yLabel="Out"
+          />
         </div>
       </div>
       <canvas
         ref={canvasRef}
-        className="border border-gray-700 rounded cursor-pointer w-full"
+        tabIndex={0}
+        aria-label={`${label} curve. [ and ] select a point, arrow keys nudge it with Alt for fine and Shift for coarse steps, Delete removes it`}
+        className="border border-gray-700 rounded cursor-pointer w-full touch-none focus:outline-none focus:border-blue-500"
         style={{ display: 'block', height: '120px' }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        onKeyDown={handleKeyDown}
       />
     </div>
   )
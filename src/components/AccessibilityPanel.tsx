@@ -0,0 +1,62 @@
+import { ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import {
+  COLOR_VISION_DEFICIENCIES,
+  type ColorVisionDeficiency,
+  type DeficiencyCollapses
+} from '../utils/colorVision'
+
+interface AccessibilityPanelProps {
+  colorVision: ColorVisionDeficiency
+  onColorVisionChange: (deficiency: ColorVisionDeficiency) => void
+  collapses: DeficiencyCollapses[]
+}
+
+export default function AccessibilityPanel({ colorVision, onColorVisionChange, collapses }: AccessibilityPanelProps) {
+  const affected = collapses.filter(entry => entry.collapses.length > 0)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Color Vision</h3>
+        <select
+          value={colorVision}
+          onChange={(e) => onColorVisionChange(e.target.value as ColorVisionDeficiency)}
+          className="px-1 py-0.5 text-xs bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Simulate on the preview; exports are unaffected"
+        >
+          {COLOR_VISION_DEFICIENCIES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {affected.length === 0 ? (
+        <p className="text-xs text-gray-400">The grade keeps Standard feature colors apart for every simulation.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {affected.map(entry => (
+            <li
+              key={entry.deficiency}
+              className={`text-xs rounded px-2 py-1 ${entry.deficiency === colorVision ? 'bg-amber-900/40' : 'bg-gray-700/50'}`}
+            >
+              <button
+                onClick={() => onColorVisionChange(entry.deficiency)}
+                className="flex items-center gap-1 font-semibold text-amber-400"
+                title="Preview this simulation"
+              >
+                <ExclamationTriangleIcon className="w-3 h-3" />
+                {COLOR_VISION_DEFICIENCIES.find(option => option.value === entry.deficiency)?.label}
+              </button>
+              {entry.collapses.map(collapse => (
+                <div key={`${collapse.a}-${collapse.b}`} className="flex justify-between text-gray-300">
+                  <span>{collapse.a} / {collapse.b}</span>
+                  <span className="text-gray-400">ΔE {collapse.before.toFixed(0)} → {collapse.after.toFixed(1)}</span>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { useRef } from 'react'
+import { UploadIcon } from '@radix-ui/react-icons'
+import ResetButton from './ResetButton'
+
+interface BaseLUTPanelProps {
+  name: string | null
+  error: string | null
+  onImport: (file: File) => void
+  onClear: () => void
+}
+
+export default function BaseLUTPanel({ name, error, onImport, onClear }: BaseLUTPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onImport(file)
+    // Allow re-importing the same file
+    e.target.value = ''
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <h3 className="text-sm font-semibold">Base LUT</h3>
+          {name && <ResetButton onReset={onClear} title="Remove base LUT" />}
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+        >
+          <UploadIcon className="w-3 h-3" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".png,.cube,image/png"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {name ? (
+        <p className="text-xs text-gray-300 truncate" title={name}>{name}</p>
+      ) : (
+        <p className="text-xs text-gray-400 italic">
+          Import a 1024x32 PNG strip or a .cube file to grade on top of it.
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
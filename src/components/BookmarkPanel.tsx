@@ -0,0 +1,103 @@
+import { useState } from 'react'
+import { PlusIcon, TrashIcon, Pencil1Icon, GridIcon } from '@radix-ui/react-icons'
+import IconButton from './IconButton'
+import type { CameraBookmark } from '../utils/bookmarks'
+
+interface BookmarkPanelProps {
+  bookmarks: CameraBookmark[]
+  onGoTo: (bookmark: CameraBookmark) => void
+  onSaveCurrent: () => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  isShowingContactSheet: boolean
+  onToggleContactSheet: () => void
+}
+
+export default function BookmarkPanel({
+  bookmarks,
+  onGoTo,
+  onSaveCurrent,
+  onRename,
+  onDelete,
+  isShowingContactSheet,
+  onToggleContactSheet
+}: BookmarkPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const startRename = (bookmark: CameraBookmark) => {
+    setEditingId(bookmark.id)
+    setEditingName(bookmark.name)
+  }
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Locations</h3>
+        <div className="flex gap-1">
+          <button
+            onClick={onToggleContactSheet}
+            className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
+              isShowingContactSheet ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title={isShowingContactSheet ? 'Back to the map' : 'Show every location at once'}
+          >
+            <GridIcon className="w-3 h-3" />
+            Grid
+          </button>
+          <button
+            onClick={onSaveCurrent}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Save view
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-0.5">
+        {bookmarks.map(bookmark => (
+          <li
+            key={bookmark.id}
+            onClick={() => onGoTo(bookmark)}
+            className="flex items-center justify-between gap-1 px-2 py-1 rounded hover:bg-gray-700 transition-colors cursor-pointer"
+          >
+            {editingId === bookmark.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename()
+                  if (e.key === 'Escape') setEditingId(null)
+                }}
+                className="min-w-0 flex-1 px-1 text-xs bg-gray-800 border border-gray-600 rounded focus:outline-none"
+              />
+            ) : (
+              <span className="text-xs truncate" title={bookmark.name}>{bookmark.name}</span>
+            )}
+            {!bookmark.builtIn && editingId !== bookmark.id && (
+              <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                <IconButton onClick={() => startRename(bookmark)} title="Rename" size="xs">
+                  <Pencil1Icon className="w-2.5 h-2.5" />
+                </IconButton>
+                <IconButton onClick={() => onDelete(bookmark.id)} title="Delete" size="xs">
+                  <TrashIcon className="w-2.5 h-2.5 text-red-400" />
+                </IconButton>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import type { ClippingReport } from '../utils/clipping'
+
+interface ClippingPanelProps {
+  report: ClippingReport
+  showZebra: boolean
+  onShowZebraChange: (show: boolean) => void
+}
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(share > 0 && share < 0.01 ? 2 : 1)}%`
+
+export default function ClippingPanel({ report, showZebra, onShowZebraChange }: ClippingPanelProps) {
+  const worst = report.stages.reduce<ClippingReport['stages'][number] | null>(
+    (worst, stage) => (stage.clipped > (worst?.clipped ?? 0) ? stage : worst),
+    null
+  )
+  const crushed = report.crushed / report.entries
+  const blown = report.blown / report.entries
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Clipping</h3>
+        <label className="flex items-center gap-1.5 text-xs" title="Stripe pure black and white pixels on the map">
+          <input
+            type="checkbox"
+            checked={showZebra}
+            onChange={(e) => onShowZebraChange(e.target.checked)}
+            className="accent-blue-500"
+          />
+          Zebra
+        </label>
+      </div>
+
+      {worst ? (
+        <p className="flex items-center gap-1 text-xs text-amber-400">
+          <ExclamationTriangleIcon className="w-3 h-3 shrink-0" />
+          Most clipping comes from {worst.label}
+        </p>
+      ) : (
+        <p className="text-xs text-gray-400">No stage pushes colors past black or white.</p>
+      )}
+
+      {/* Share of cube entries each stage pushed out of range and lost to a clamp */}
+      <ul className="space-y-1">
+        {report.stages.map(stage => {
+          const share = stage.clipped / report.entries
+          return (
+            <li key={stage.id} className="flex items-center gap-2 text-xs">
+              <span className={`w-20 truncate ${stage === worst ? 'text-amber-400' : ''}`} title={stage.label}>
+                {stage.label}
+              </span>
+              <span className="flex-1 h-1.5 rounded bg-gray-700 overflow-hidden">
+                <span
+                  className={`block h-full ${stage === worst ? 'bg-amber-500' : 'bg-gray-400'}`}
+                  style={{ width: `${share * 100}%` }}
+                />
+              </span>
+              <span className="w-12 text-right text-gray-400 tabular-nums">{formatPercent(share)}</span>
+            </li>
+          )
+        })}
+      </ul>
+
+      <div className="flex justify-between text-[10px] text-gray-400">
+        <span className={crushed > 0.01 ? 'text-amber-400' : ''}>To black: {formatPercent(crushed)}</span>
+        <span className={blown > 0.01 ? 'text-amber-400' : ''}>To white: {formatPercent(blown)}</span>
+      </div>
+    </div>
+  )
+}
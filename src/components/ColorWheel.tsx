@@ -1,15 +1,45 @@
 import { useEffect, useRef, useState } from 'react'
 import * as THREE from 'three'
 import ResetButton from './ResetButton'
+import ParameterSlider from './ParameterSlider'
+import PointValuePopover from './PointValuePopover'
+import { getArrowNudge } from '../utils/keyboardUtils'
 
 interface ColorWheelProps {
   label: string
   offset: { x: number; y: number } // -1 to 1 range
   onChange: (offset: { x: number; y: number }) => void
   onReset?: () => void
+  luminance: number // -1 to 1 range
+  onLuminanceChange: (luminance: number) => void
+  onLuminanceReset?: () => void
+  strength: number // 0 to 2 range
+  onStrengthChange: (strength: number) => void
+  onStrengthReset?: () => void
 }
 
-export default function ColorWheel({ label, offset, onChange, onReset }: ColorWheelProps) {
+// The handle stays inside the dark center (radius 0.7 in scene coordinates,
+// where an offset of 1 sits at 0.6)
+const MAX_OFFSET = 0.7 / 0.6
+
+const clampOffset = (offset: { x: number; y: number }) => {
+  const dist = Math.sqrt(offset.x * offset.x + offset.y * offset.y)
+  if (dist <= MAX_OFFSET) return offset
+  return { x: (offset.x / dist) * MAX_OFFSET, y: (offset.y / dist) * MAX_OFFSET }
+}
+
+export default function ColorWheel({
+  label,
+  offset,
+  onChange,
+  onReset,
+  luminance,
+  onLuminanceChange,
+  onLuminanceReset,
+  strength,
+  onStrengthChange,
+  onStrengthReset
+}: ColorWheelProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const sceneRef = useRef<THREE.Scene | null>(null)
@@ -120,67 +150,97 @@ export default function ColorWheel({ label, offset, onChange, onReset }: ColorWh
     renderer.render(scene, camera)
   }, [offset, isDragging])
 
-  // Handle mouse interactions
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
+  // Convert a pointer position to scene coordinates (-1 to 1)
+  const toScene = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      y: -(((e.clientY - rect.top) / rect.height) * 2 - 1)
+    }
+  }
 
-    const x = ((e.clientX - rect.left) / rect.width) * 2 - 1
-    const y = -(((e.clientY - rect.top) / rect.height) * 2 - 1)
+  // Handle pointer interactions. Capturing the pointer keeps the drag going
+  // when it leaves the canvas
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toScene(e)
 
-    // Check if clicking near the handle
+    // Check if clicking near the handle; fingers get a larger target
     const handleX = offset.x * 0.6
     const handleY = offset.y * 0.6
     const dist = Math.sqrt((x - handleX) ** 2 + (y - handleY) ** 2)
 
-    if (dist < 0.15) {
+    if (dist < (e.pointerType === 'touch' ? 0.3 : 0.15)) {
+      e.currentTarget.setPointerCapture(e.pointerId)
       setIsDragging(true)
     }
   }
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!isDragging) return
 
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
-
-    let x = ((e.clientX - rect.left) / rect.width) * 2 - 1
-    let y = -(((e.clientY - rect.top) / rect.height) * 2 - 1)
+    // Convert from scene coordinates (-0.6 to 0.6) to normalized (-1 to 1)
+    const { x, y } = toScene(e)
+    onChange(clampOffset({ x: x / 0.6, y: y / 0.6 }))
+  }
 
-    // Constrain to center circle (radius 0.7 in scene coordinates)
-    const dist = Math.sqrt(x * x + y * y)
-    if (dist > 0.7) {
-      x = (x / dist) * 0.7
-      y = (y / dist) * 0.7
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
     }
-
-    // Convert from scene coordinates (-0.7 to 0.7) to normalized (-1 to 1)
-    onChange({ 
-      x: x / 0.6, 
-      y: y / 0.6 
-    })
+    setIsDragging(false)
   }
 
-  const handleMouseUp = () => {
-    setIsDragging(false)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const nudge = getArrowNudge(e)
+    if (!nudge) return
+    e.preventDefault()
+    onChange(clampOffset({ x: offset.x + nudge.dx, y: offset.y + nudge.dy }))
   }
 
   return (
-    <div ref={containerRef}>
-      <div className="flex justify-between mb-1">
+    <div ref={containerRef} className="space-y-2">
+      <div className="flex justify-between">
         <div className="flex items-center gap-1">
           <label className="text-xs font-medium">{label}</label>
           {onReset && <ResetButton onReset={onReset} />}
+          <PointValuePopover
+            title={`${label} offset`}
+            point={offset}
+            onChange={(point) => onChange(clampOffset(point))}
+            min={-MAX_OFFSET}
+            max={MAX_OFFSET}
+          />
         </div>
       </div>
       <canvas
         ref={canvasRef}
-        className="border border-gray-700 rounded cursor-pointer"
+        tabIndex={0}
+        aria-label={`${label} wheel. Arrow keys nudge the handle, Alt for fine steps, Shift for coarse steps`}
+        className="border border-gray-700 rounded cursor-pointer touch-none focus:outline-none focus:border-blue-500"
         style={{ display: 'block', width: '120px', height: '120px' }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+      />
+      <ParameterSlider
+        label="Luminance"
+        value={luminance}
+        onChange={onLuminanceChange}
+        onReset={onLuminanceReset}
+        min={-1}
+        max={1}
+        step={0.01}
+      />
+      <ParameterSlider
+        label="Strength"
+        value={strength}
+        onChange={onStrengthChange}
+        onReset={onStrengthReset}
+        min={0}
+        max={2}
+        step={0.01}
       />
     </div>
   )
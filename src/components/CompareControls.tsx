@@ -0,0 +1,52 @@
+import { ViewVerticalIcon } from '@radix-ui/react-icons'
+
+interface CompareControlsProps {
+  isComparing: boolean
+  onToggleComparing: () => void
+  referenceId: string
+  references: { id: string; name: string }[]
+  onReferenceChange: (id: string) => void
+  flipKey: string
+  isShowingOriginal: boolean
+}
+
+// Toolbar for the before/after split view over the map
+export default function CompareControls({
+  isComparing,
+  onToggleComparing,
+  referenceId,
+  references,
+  onReferenceChange,
+  flipKey,
+  isShowingOriginal
+}: CompareControlsProps) {
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 bg-gray-800/90 rounded-lg shadow-lg border border-gray-700 text-xs">
+      <button
+        onClick={onToggleComparing}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded transition-colors ${
+          isComparing ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+        }`}
+        title="Split the map between a reference and the current grade"
+      >
+        <ViewVerticalIcon className="w-3 h-3" />
+        Compare
+      </button>
+      {isComparing && (
+        <select
+          value={referenceId}
+          onChange={(e) => onReferenceChange(e.target.value)}
+          className="px-1 py-0.5 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Reference shown left of the divider"
+        >
+          {references.map(reference => (
+            <option key={reference.id} value={reference.id}>{reference.name}</option>
+          ))}
+        </select>
+      )}
+      <span className={isShowingOriginal ? 'text-blue-400' : 'text-gray-400'}>
+        Press <kbd className="px-1 bg-gray-700 rounded">{flipKey.toUpperCase()}</kbd> to flip to the original
+      </span>
+    </div>
+  )
+}
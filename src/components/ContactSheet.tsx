@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react'
+import mapboxgl from 'mapbox-gl'
+import { MAP_STYLE_URL, applyStyleConfig, type StyleConfig } from '../utils/mapStyle'
+import type { CameraBookmark } from '../utils/bookmarks'
+
+// Size of the offscreen map each location is photographed at
+const SNAPSHOT_WIDTH = 640
+const SNAPSHOT_HEIGHT = 400
+
+// Resolve once the map has drawn everything in view
+const waitForIdle = (map: mapboxgl.Map) => new Promise<void>(resolve => {
+  map.once('idle', () => resolve())
+  map.triggerRepaint()
+})
+
+interface ContactSheetProps {
+  bookmarks: CameraBookmark[]
+  lut: string
+  styleConfig: StyleConfig
+  onSelect: (bookmark: CameraBookmark) => void
+}
+
+// Every bookmark side by side with the current grade, to check a theme
+// across very different places at a glance. Tiles are snapshots from one
+// offscreen map, since browsers only keep a few WebGL contexts alive
+export default function ContactSheet({ bookmarks, lut, styleConfig, onSelect }: ContactSheetProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const appliedLUTRef = useRef(lut)
+  const appliedStyleConfigRef = useRef(styleConfig)
+  const [snapshotMap, setSnapshotMap] = useState<mapboxgl.Map | null>(null)
+  const [snapshots, setSnapshots] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const map = new mapboxgl.Map({
+      container: containerRef.current,
+      style: MAP_STYLE_URL,
+      interactive: false,
+      attributionControl: false,
+      preserveDrawingBuffer: true,
+      config: {
+        basemap: {
+          ...appliedStyleConfigRef.current,
+          theme: 'custom',
+          'theme-data': appliedLUTRef.current
+        }
+      }
+    })
+    map.once('load', () => setSnapshotMap(map))
+
+    return () => {
+      map.remove()
+      setSnapshotMap(null)
+    }
+  }, [])
+
+  // Photograph each location in turn whenever the grade, style or locations
+  // change. Old snapshots stay up until replaced; a newer run cancels this one
+  useEffect(() => {
+    if (!snapshotMap) return
+    let cancelled = false
+
+    if (lut !== appliedLUTRef.current) {
+      snapshotMap.setConfigProperty('basemap', 'theme-data', lut)
+      appliedLUTRef.current = lut
+    }
+    if (styleConfig !== appliedStyleConfigRef.current) {
+      applyStyleConfig(snapshotMap, styleConfig, appliedStyleConfigRef.current)
+      appliedStyleConfigRef.current = styleConfig
+    }
+
+    const photograph = async () => {
+      for (const bookmark of bookmarks) {
+        snapshotMap.jumpTo({
+          center: bookmark.center,
+          zoom: bookmark.zoom,
+          bearing: bookmark.bearing,
+          pitch: bookmark.pitch
+        })
+        await waitForIdle(snapshotMap)
+        if (cancelled) return
+
+        const url = snapshotMap.getCanvas().toDataURL('image/jpeg', 0.85)
+        setSnapshots(current => ({ ...current, [bookmark.id]: url }))
+      }
+    }
+    photograph()
+
+    return () => {
+      cancelled = true
+    }
+  }, [snapshotMap, bookmarks, lut, styleConfig])
+
+  const columns = Math.ceil(Math.sqrt(bookmarks.length))
+  const rows = Math.ceil(bookmarks.length / columns)
+
+  return (
+    <div className="absolute inset-0 flex flex-col bg-gray-900 p-2 gap-2">
+      {/* Offscreen, but still drawn so it can be read back */}
+      <div
+        ref={containerRef}
+        aria-hidden
+        style={{ position: 'fixed', left: -10000, top: 0, width: SNAPSHOT_WIDTH, height: SNAPSHOT_HEIGHT }}
+      />
+      <div
+        className="flex-1 grid gap-2"
+        style={{
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`
+        }}
+      >
+        {bookmarks.map(bookmark => (
+          <button
+            key={bookmark.id}
+            onClick={() => onSelect(bookmark)}
+            className="relative overflow-hidden rounded border border-gray-700 hover:border-blue-500 transition-colors"
+            title={`Go to ${bookmark.name}`}
+          >
+            {snapshots[bookmark.id] ? (
+              <img src={snapshots[bookmark.id]} alt="" className="absolute inset-0 w-full h-full object-cover" />
+            ) : (
+              <div className="absolute inset-0 bg-gray-800 animate-pulse" />
+            )}
+            <span className="absolute top-2 left-2 px-2 py-1 text-xs bg-gray-900/80 rounded">
+              {bookmark.name}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
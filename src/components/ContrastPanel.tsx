@@ -0,0 +1,64 @@
+import { STANDARD_COLORS, type RGB } from '../utils/standardColors'
+import type { ContrastLevel, ContrastResult } from '../utils/contrast'
+
+interface ContrastPanelProps {
+  results: ContrastResult[]
+}
+
+const toCSS = (color: RGB) =>
+  `rgb(${color.map(c => Math.round(c * 255)).join(',')})`
+
+const BADGE_CLASSES: Record<ContrastLevel, string> = {
+  AAA: 'bg-green-700 text-green-100',
+  AA: 'bg-green-900 text-green-300',
+  fail: 'bg-red-900 text-red-300'
+}
+
+export default function ContrastPanel({ results }: ContrastPanelProps) {
+  const failures = results.filter(result => result.level === 'fail').length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Contrast</h3>
+        <span className={`text-xs ${failures > 0 ? 'text-red-400' : 'text-gray-400'}`}>
+          {failures > 0 ? `${failures} of ${results.length} fail` : 'All pass'}
+        </span>
+      </div>
+      <p className="text-xs text-gray-400">
+        WCAG ratios for Standard colors after the grade. Text needs 4.5:1 (AA) or 7:1 (AAA); shapes need 3:1.
+      </p>
+
+      <ul className="space-y-1">
+        {results.map(result => {
+          const { foreground, background, kind } = result.pair
+          const name = `${STANDARD_COLORS[foreground].name} on ${STANDARD_COLORS[background].name}`
+
+          return (
+            <li key={`${foreground}-${background}`} className="flex items-center gap-2 text-xs">
+              {/* Graded swatch: text or a bar on the background */}
+              <span
+                className="w-8 h-5 shrink-0 flex items-center justify-center rounded border border-gray-600 font-semibold"
+                style={{ backgroundColor: toCSS(result.background), color: toCSS(result.foreground) }}
+              >
+                {kind === 'text' ? 'Aa' : (
+                  <span className="w-5 h-1.5 rounded-sm" style={{ backgroundColor: toCSS(result.foreground) }} />
+                )}
+              </span>
+              <span className="flex-1 truncate" title={name}>{name}</span>
+              <span
+                className="text-gray-400 tabular-nums"
+                title={`Without the grade: ${result.original.toFixed(2)}:1`}
+              >
+                {result.ratio.toFixed(2)}:1
+              </span>
+              <span className={`w-9 text-center rounded px-1 text-[10px] font-semibold ${BADGE_CLASSES[result.level]}`}>
+                {result.level === 'fail' ? 'Fail' : result.level}
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
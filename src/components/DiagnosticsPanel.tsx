@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react'
+import LUTCubeView from './LUTCubeView'
+import type { LUTCube } from '../utils/lutCube'
+import {
+  DIAGNOSTICS_VIEWS,
+  computeHistogram,
+  drawHistogram,
+  drawVectorscope,
+  drawWaveform,
+  getClipping,
+  isScopeView,
+  type DiagnosticsView
+} from '../utils/scopes'
+
+const SCOPE_HEIGHT = 180
+
+interface DiagnosticsPanelProps {
+  view: DiagnosticsView
+  onViewChange: (view: DiagnosticsView) => void
+  lutBase64: string
+  lutCube: LUTCube
+  frame: ImageData | null // Latest frame of the map, for the scopes
+}
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(share > 0 && share < 0.01 ? 2 : 1)}%`
+
+export default function DiagnosticsPanel({ view, onViewChange, lutBase64, lutCube, frame }: DiagnosticsPanelProps) {
+  const scopeCanvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const ctx = scopeCanvasRef.current?.getContext('2d')
+    if (!ctx || !frame) return
+
+    if (view === 'histogram') drawHistogram(ctx, computeHistogram(frame))
+    if (view === 'waveform') drawWaveform(ctx, frame)
+    if (view === 'vectorscope') drawVectorscope(ctx, frame)
+  }, [view, frame])
+
+  const clipping = view === 'histogram' && frame ? getClipping(frame) : null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex rounded overflow-hidden border border-gray-600 text-[10px]">
+        {DIAGNOSTICS_VIEWS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onViewChange(option.value)}
+            className={`flex-1 py-1 transition-colors ${
+              view === option.value ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            aria-pressed={view === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'strip' && (
+        <img
+          src={lutBase64}
+          alt="LUT Preview"
+          className="w-full border border-gray-700 rounded"
+          style={{ imageRendering: 'pixelated' }}
+        />
+      )}
+
+      {view === 'cube' && (
+        <div className="flex items-center gap-3">
+          <LUTCubeView cube={lutCube} size={SCOPE_HEIGHT} />
+          <p className="text-xs text-gray-400">
+            Lines run from each input color to where the LUT moves it. Long lines are strong changes; points bunched at a face are clipped. Drag to rotate.
+          </p>
+        </div>
+      )}
+
+      {isScopeView(view) && (
+        <div className="relative">
+          <canvas
+            ref={scopeCanvasRef}
+            width={view === 'vectorscope' ? SCOPE_HEIGHT : 476}
+            height={SCOPE_HEIGHT}
+            className={`rounded border border-gray-700 ${view === 'vectorscope' ? 'mx-auto block' : 'w-full'}`}
+          />
+          {!frame && (
+            <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-400">
+              Waiting for the map to render
+            </p>
+          )}
+          {clipping && (
+            <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+              <span className={clipping.shadows > 0.01 ? 'text-amber-400' : ''}>
+                Crushed: {formatPercent(clipping.shadows)}
+              </span>
+              <span className={clipping.highlights > 0.01 ? 'text-amber-400' : ''}>
+                Clipped: {formatPercent(clipping.highlights)}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react'
+import { ResetIcon } from '@radix-ui/react-icons'
+import IconButton from './IconButton'
+
+interface HistoryPanelProps {
+  labels: string[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJumpTo: (index: number) => void
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+const modifier = isMac ? '⌘' : 'Ctrl+'
+
+export default function HistoryPanel({ labels, index, canUndo, canRedo, onUndo, onRedo, onJumpTo }: HistoryPanelProps) {
+  const listRef = useRef<HTMLOListElement>(null)
+
+  // Keep the current entry in view as history grows
+  useEffect(() => {
+    const current = listRef.current?.children[index] as HTMLElement | undefined
+    current?.scrollIntoView({ block: 'nearest' })
+  }, [index, labels.length])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">History</h3>
+        <div className="flex gap-1">
+          <IconButton onClick={canUndo ? onUndo : undefined} title={`Undo (${modifier}Z)`} size="small">
+            <ResetIcon className={`w-3 h-3 ${canUndo ? '' : 'opacity-40'}`} />
+          </IconButton>
+          <IconButton onClick={canRedo ? onRedo : undefined} title={`Redo (${modifier}Shift+Z)`} size="small">
+            <ResetIcon className={`w-3 h-3 -scale-x-100 ${canRedo ? '' : 'opacity-40'}`} />
+          </IconButton>
+        </div>
+      </div>
+      <ol ref={listRef} className="max-h-32 overflow-y-auto rounded border border-gray-700 text-xs">
+        {labels.map((label, i) => (
+          <li
+            key={i}
+            onClick={() => onJumpTo(i)}
+            className={`px-2 py-1 cursor-pointer transition-colors ${
+              i === index
+                ? 'bg-blue-600 text-white'
+                : i > index
+                  ? 'text-gray-500 hover:bg-gray-700'
+                  : 'text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {label}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
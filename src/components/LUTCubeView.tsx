@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react'
+import * as THREE from 'three'
+import type { LUTCube } from '../utils/lutCube'
+
+// Lattice points per axis drawn; the full cube would be unreadable
+const GRID = 9
+
+interface LUTCubeViewProps {
+  cube: LUTCube
+  size?: number
+}
+
+// The RGB cube in 3D: each line runs from an input color's position to
+// where the LUT moves it, colored from input to output. Drag to rotate
+export default function LUTCubeView({ cube, size = 180 }: LUTCubeViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
+  const sceneRef = useRef<THREE.Scene | null>(null)
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null)
+  const groupRef = useRef<THREE.Group | null>(null)
+  const dragRef = useRef<{ x: number; y: number } | null>(null)
+  const [rotation, setRotation] = useState({ x: 0.5, y: -0.7 })
+
+  // Initialize Three.js scene with the cube outline and RGB axes
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const scene = new THREE.Scene()
+    scene.background = new THREE.Color(0x111827) // gray-900
+    sceneRef.current = scene
+
+    const camera = new THREE.PerspectiveCamera(35, 1, 0.1, 10)
+    camera.position.z = 3
+    cameraRef.current = camera
+
+    const renderer = new THREE.WebGLRenderer({ canvas: canvasRef.current, antialias: true })
+    renderer.setSize(size, size)
+    renderer.setPixelRatio(window.devicePixelRatio)
+    rendererRef.current = renderer
+
+    // Colors are drawn at their RGB value minus 0.5, centering the cube
+    const group = new THREE.Group()
+    scene.add(group)
+    groupRef.current = group
+
+    const outline = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)),
+      new THREE.LineBasicMaterial({ color: 0x4b5563 })
+    )
+    group.add(outline)
+
+    const axes = new THREE.BufferGeometry()
+    axes.setAttribute('position', new THREE.Float32BufferAttribute([
+      -0.5, -0.5, -0.5, 0.5, -0.5, -0.5,
+      -0.5, -0.5, -0.5, -0.5, 0.5, -0.5,
+      -0.5, -0.5, -0.5, -0.5, -0.5, 0.5
+    ], 3))
+    axes.setAttribute('color', new THREE.Float32BufferAttribute([
+      1, 0, 0, 1, 0, 0,
+      0, 1, 0, 0, 1, 0,
+      0, 0, 1, 0, 0, 1
+    ], 3))
+    group.add(new THREE.LineSegments(axes, new THREE.LineBasicMaterial({ vertexColors: true })))
+
+    return () => {
+      scene.traverse(object => {
+        if (object instanceof THREE.LineSegments || object instanceof THREE.Points) {
+          object.geometry.dispose()
+          object.material.dispose()
+        }
+      })
+      renderer.dispose()
+    }
+  }, [size])
+
+  // Rebuild the displacement lines when the LUT changes
+  useEffect(() => {
+    const group = groupRef.current
+    if (!group) return
+
+    const count = GRID * GRID * GRID
+    const linePositions = new Float32Array(count * 6)
+    const lineColors = new Float32Array(count * 6)
+    const pointPositions = new Float32Array(count * 3)
+    const pointColors = new Float32Array(count * 3)
+    const max = cube.size - 1
+
+    let n = 0
+    for (let b = 0; b < GRID; b++) {
+      for (let g = 0; g < GRID; g++) {
+        for (let r = 0; r < GRID; r++) {
+          // Nearest cube entry to this lattice point
+          const ri = Math.round((r / (GRID - 1)) * max)
+          const gi = Math.round((g / (GRID - 1)) * max)
+          const bi = Math.round((b / (GRID - 1)) * max)
+          const index = ((bi * cube.size + gi) * cube.size + ri) * 3
+          const input = [ri / max, gi / max, bi / max]
+          const output = [cube.data[index], cube.data[index + 1], cube.data[index + 2]]
+
+          for (let c = 0; c < 3; c++) {
+            linePositions[n * 6 + c] = input[c] - 0.5
+            linePositions[n * 6 + 3 + c] = output[c] - 0.5
+            lineColors[n * 6 + c] = input[c]
+            lineColors[n * 6 + 3 + c] = output[c]
+            pointPositions[n * 3 + c] = output[c] - 0.5
+            pointColors[n * 3 + c] = output[c]
+          }
+          n++
+        }
+      }
+    }
+
+    const lineGeometry = new THREE.BufferGeometry()
+    lineGeometry.setAttribute('position', new THREE.BufferAttribute(linePositions, 3))
+    lineGeometry.setAttribute('color', new THREE.BufferAttribute(lineColors, 3))
+    const lines = new THREE.LineSegments(
+      lineGeometry,
+      new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.6 })
+    )
+
+    const pointGeometry = new THREE.BufferGeometry()
+    pointGeometry.setAttribute('position', new THREE.BufferAttribute(pointPositions, 3))
+    pointGeometry.setAttribute('color', new THREE.BufferAttribute(pointColors, 3))
+    const points = new THREE.Points(
+      pointGeometry,
+      new THREE.PointsMaterial({ vertexColors: true, size: 3, sizeAttenuation: false })
+    )
+
+    group.add(lines, points)
+
+    return () => {
+      group.remove(lines, points)
+      lineGeometry.dispose()
+      lines.material.dispose()
+      pointGeometry.dispose()
+      points.material.dispose()
+    }
+  }, [cube, size])
+
+  // Render whenever the LUT or the view changes
+  useEffect(() => {
+    if (!sceneRef.current || !cameraRef.current || !rendererRef.current || !groupRef.current) return
+    groupRef.current.rotation.set(rotation.x, rotation.y, 0)
+    rendererRef.current.render(sceneRef.current, cameraRef.current)
+  }, [cube, size, rotation])
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { x: e.clientX, y: e.clientY }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return
+    const dx = e.clientX - dragRef.current.x
+    const dy = e.clientY - dragRef.current.y
+    dragRef.current = { x: e.clientX, y: e.clientY }
+    setRotation(current => ({
+      x: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, current.x + dy * 0.01)),
+      y: current.y + dx * 0.01
+    }))
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+    dragRef.current = null
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={size}
+      className="rounded cursor-grab active:cursor-grabbing touch-none"
+      style={{ width: size, height: size }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  )
+}
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from 'react'
+import ParameterSlider from './ParameterSlider'
+import ResetButton from './ResetButton'
+import type { Histogram } from '../utils/scopes'
+import {
+  LEVELS_CHANNELS,
+  MIN_LEVELS_INPUT_RANGE,
+  type ChannelLevels,
+  type Levels,
+  type LevelsChannel
+} from '../utils/levelsUtils'
+
+interface LevelsPanelProps {
+  levels: ChannelLevels
+  onChange: (levels: ChannelLevels) => void
+  onReset?: () => void
+  histogram: Histogram | null // Of the map as currently graded
+  onHistogramVisibleChange: (visible: boolean) => void // Whether the histogram is scrolled into view
+  canAutoLevel: boolean
+  onAutoLevels: (perChannel: boolean) => void
+}
+
+const HISTOGRAM_WIDTH = 256
+const HISTOGRAM_HEIGHT = 64
+
+// Shown in 0-255 like other levels tools
+const formatLevel = (value: number) => Math.round(value * 255).toString()
+
+// The channel's histogram (luma for master) with the input black, gamma and
+// white points marked over it
+const drawLevelsHistogram = (
+  ctx: CanvasRenderingContext2D,
+  histogram: Histogram | null,
+  channel: LevelsChannel,
+  levels: Levels,
+  color: string
+) => {
+  const { width, height } = ctx.canvas
+  ctx.fillStyle = '#111827' // gray-900
+  ctx.fillRect(0, 0, width, height)
+
+  if (histogram) {
+    const bins = channel === 'master' ? histogram.luma : histogram[channel]
+    // Ignore the extreme bins when scaling, so clipping doesn't flatten the rest
+    const peak = Math.max(1, ...bins.subarray(1, 255))
+
+    ctx.globalAlpha = 0.5
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.moveTo(0, height)
+    for (let i = 0; i < 256; i++) {
+      ctx.lineTo((i / 255) * width, height - Math.min(1, bins[i] / peak) * height)
+    }
+    ctx.lineTo(width, height)
+    ctx.closePath()
+    ctx.fill()
+    ctx.globalAlpha = 1
+  }
+
+  const midpoint = levels.inputBlack + Math.pow(0.5, levels.gamma) * (levels.inputWhite - levels.inputBlack)
+  const markers: [number, string][] = [
+    [levels.inputBlack, '#000000'],
+    [midpoint, '#9ca3af'],
+    [levels.inputWhite, '#ffffff']
+  ]
+  for (const [value, stroke] of markers) {
+    const x = Math.round(value * (width - 1)) + 0.5
+    ctx.strokeStyle = stroke
+    ctx.beginPath()
+    ctx.moveTo(x, 0)
+    ctx.lineTo(x, height)
+    ctx.stroke()
+  }
+}
+
+export default function LevelsPanel({
+  levels,
+  onChange,
+  onReset,
+  histogram,
+  onHistogramVisibleChange,
+  canAutoLevel,
+  onAutoLevels
+}: LevelsPanelProps) {
+  const [channel, setChannel] = useState<LevelsChannel>('master')
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const current = levels[channel]
+  const color = LEVELS_CHANNELS.find(option => option.value === channel)?.color ?? '#e5e7eb'
+
+  // The histogram only needs map frames while it can be seen
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const observer = new IntersectionObserver(([entry]) => onHistogramVisibleChange(entry.isIntersecting))
+    observer.observe(canvas)
+
+    return () => {
+      observer.disconnect()
+      onHistogramVisibleChange(false)
+    }
+  }, [onHistogramVisibleChange])
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (ctx) drawLevelsHistogram(ctx, histogram, channel, levels[channel], color)
+  }, [histogram, channel, levels, color])
+
+  const update = (key: keyof Levels, value: number) => {
+    const next = { ...current, [key]: value }
+    // Keep the input range from collapsing
+    if (key === 'inputBlack') next.inputWhite = Math.max(next.inputWhite, value + MIN_LEVELS_INPUT_RANGE)
+    if (key === 'inputWhite') next.inputBlack = Math.min(next.inputBlack, value - MIN_LEVELS_INPUT_RANGE)
+    onChange({ ...levels, [channel]: next })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <h3 className="text-sm font-semibold">Levels</h3>
+          {onReset && <ResetButton onReset={onReset} />}
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onAutoLevels(false)}
+            disabled={!canAutoLevel}
+            className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors disabled:opacity-50 disabled:hover:bg-gray-700"
+            title="Stretch the map's tones to the full range, keeping its colors"
+          >
+            Auto
+          </button>
+          <button
+            onClick={() => onAutoLevels(true)}
+            disabled={!canAutoLevel}
+            className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors disabled:opacity-50 disabled:hover:bg-gray-700"
+            title="Stretch each channel to the full range, removing color casts"
+          >
+            Auto Color
+          </button>
+        </div>
+      </div>
+
+      <div className="flex rounded overflow-hidden border border-gray-600 text-[10px]">
+        {LEVELS_CHANNELS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setChannel(option.value)}
+            className={`flex-1 py-1 transition-colors ${
+              channel === option.value ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            aria-pressed={channel === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={HISTOGRAM_WIDTH}
+          height={HISTOGRAM_HEIGHT}
+          className="w-full h-16 rounded border border-gray-700"
+        />
+        {!histogram && (
+          <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-400">
+            Histogram needs the live map
+          </p>
+        )}
+      </div>
+
+      <ParameterSlider
+        label="Input Black"
+        value={current.inputBlack}
+        onChange={(value) => update('inputBlack', value)}
+        min={0}
+        max={1 - MIN_LEVELS_INPUT_RANGE}
+        step={1 / 255}
+        format={formatLevel}
+      />
+      <ParameterSlider
+        label="Gamma"
+        value={current.gamma}
+        onChange={(value) => update('gamma', value)}
+        min={0.1}
+        max={4}
+        step={0.01}
+      />
+      <ParameterSlider
+        label="Input White"
+        value={current.inputWhite}
+        onChange={(value) => update('inputWhite', value)}
+        min={MIN_LEVELS_INPUT_RANGE}
+        max={1}
+        step={1 / 255}
+        format={formatLevel}
+      />
+      <ParameterSlider
+        label="Output Black"
+        value={current.outputBlack}
+        onChange={(value) => update('outputBlack', value)}
+        min={0}
+        max={1}
+        step={1 / 255}
+        format={formatLevel}
+      />
+      <ParameterSlider
+        label="Output White"
+        value={current.outputWhite}
+        onChange={(value) => update('outputWhite', value)}
+        min={0}
+        max={1}
+        step={1 / 255}
+        format={formatLevel}
+      />
+    </div>
+  )
+}
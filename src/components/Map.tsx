@@ -1,42 +1,113 @@
 import { useEffect, useRef, useState } from 'react'
 import mapboxgl from 'mapbox-gl'
 import 'mapbox-gl/dist/mapbox-gl.css'
+import type { LUTParameters } from '../utils/lutUtils'
+import { getIdentityLUTPNG } from '../utils/lutEncoders'
+import { DEFAULT_BOOKMARK } from '../utils/bookmarks'
+import { getColorVisionMatrix, type ColorVisionDeficiency } from '../utils/colorVision'
+import { MAP_STYLE_URL, applyStyleConfig, type StyleConfig } from '../utils/mapStyle'
+import { createPreviewRenderer, type PreviewRenderer } from '../utils/previewRenderer'
+import { ZEBRA_SAMPLE_WIDTH, drawZebra, readFrame } from '../utils/scopes'
+import ReferenceMap from './ReferenceMap'
 
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN || ''
 
+// Minimum time between LUT updates on the map while controls are dragged
+const LUT_UPDATE_INTERVAL = 100
+
+// Minimum time between frames handed to onFrame
+const FRAME_INTERVAL = 200
+
+// A second map to compare against, split with the graded one
+export interface MapReference {
+  lut: string
+  label: string
+}
+
 interface MapProps {
   lutBase64: string
+  styleConfig: StyleConfig
+  previewParams?: LUTParameters | null // Grade to preview on the GPU instead of the LUT
+  colorVision?: ColorVisionDeficiency // Simulated on top of the GPU preview
+  reference?: MapReference | null
+  originalLUT?: string | null // Shown instead of the grade while set, to flip to the original
   isPickingColor?: boolean
   onColorPicked?: (color: { r: number; g: number; b: number }) => void
+  onLoad?: (map: mapboxgl.Map) => void
+  onLoadError?: (message: string) => void // The style failed to load, e.g. offline
+  onFrame?: (source: HTMLCanvasElement) => void // Canvas showing the graded map, after it changes
+  showZebra?: boolean // Stripe pixels that are pure black or white
 }
 
-export default function Map({ lutBase64, isPickingColor = false, onColorPicked }: MapProps) {
+export default function Map({
+  lutBase64,
+  styleConfig,
+  previewParams = null,
+  colorVision = 'none',
+  reference = null,
+  originalLUT = null,
+  isPickingColor = false,
+  onColorPicked,
+  onLoad,
+  onLoadError,
+  onFrame,
+  showZebra = false
+}: MapProps) {
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<mapboxgl.Map | null>(null)
   const [pickerPosition, setPickerPosition] = useState<{ x: number; y: number } | null>(null)
   const pixelGridRef = useRef<Uint8Array | null>(null)
   const [pixelGrid, setPixelGrid] = useState<Uint8Array | null>(null)
+  const initialLUTRef = useRef(lutBase64)
+  const appliedStyleConfigRef = useRef(styleConfig)
+  const lastLUTUpdateRef = useRef(0)
+  const latestLUTRef = useRef(lutBase64)
+  const committedLUTRef = useRef(lutBase64)
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null)
+  const zebraCanvasRef = useRef<HTMLCanvasElement>(null)
+  const previewRendererRef = useRef<PreviewRenderer | null>(null)
+  const previewParamsRef = useRef(previewParams)
+  const colorVisionRef = useRef(colorVision)
+  const drawPreviewRef = useRef<(() => void) | null>(null)
+  const [isPreviewVisible, setIsPreviewVisible] = useState(false)
+  const isPreviewVisibleRef = useRef(false)
+  const requestFrameRef = useRef<(() => void) | null>(null)
+  // Flipping to the original ends any preview, so the original shows as is
+  const isPreviewing = previewParams !== null && originalLUT === null
+  // The loaded map, for children that follow its camera
+  const [loadedMap, setLoadedMap] = useState<mapboxgl.Map | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
 
   useEffect(() => {
     if (!mapContainer.current) return
     if (map.current) return // Already initialized
 
     // Initialize map
-    map.current = new mapboxgl.Map({
+    const mapInstance = new mapboxgl.Map({
       container: mapContainer.current,
-      style: 'mapbox://styles/mapbox/standard',
-      center: [-74.01297, 40.70644],
-      zoom: 15.28,
-      pitch: 60,
+      style: MAP_STYLE_URL,
+      center: DEFAULT_BOOKMARK.center,
+      zoom: DEFAULT_BOOKMARK.zoom,
+      bearing: DEFAULT_BOOKMARK.bearing,
+      pitch: DEFAULT_BOOKMARK.pitch,
       hash: true,
       preserveDrawingBuffer: true,
       config: {
         basemap: {
+            ...appliedStyleConfigRef.current,
             theme: 'custom',
-            'theme-data': lutBase64
+            'theme-data': initialLUTRef.current
         }
       }
     })
+    // Errors after load are usually single tiles; before it, nothing shows
+    const handleError = (e: { error: Error }) => setLoadError(e.error.message)
+    mapInstance.on('error', handleError)
+    mapInstance.once('load', () => {
+      mapInstance.off('error', handleError)
+      setLoadedMap(mapInstance)
+    })
+    map.current = mapInstance
 
     return () => {
       if (map.current) {
@@ -44,14 +115,144 @@ export default function Map({ lutBase64, isPickingColor = false, onColorPicked }
         map.current = null
       }
     }
-  }, [lutBase64])
+  }, [])
+
+  useEffect(() => {
+    if (loadedMap) onLoad?.(loadedMap)
+  }, [loadedMap, onLoad])
+
+  useEffect(() => {
+    if (loadError) onLoadError?.(loadError)
+  }, [loadError, onLoadError])
+
+  useEffect(() => {
+    if (!map.current || styleConfig === appliedStyleConfigRef.current) return
+    applyStyleConfig(map.current, styleConfig, appliedStyleConfigRef.current)
+    appliedStyleConfigRef.current = styleConfig
+  }, [styleConfig])
+
+  const commitLUT = (lut: string) => {
+    if (!map.current || lut === committedLUTRef.current) return
+    lastLUTUpdateRef.current = performance.now()
+    committedLUTRef.current = lut
+    map.current.setConfigProperty('basemap', 'theme-data', lut)
+  }
+
+  // Update LUT when it changes, at most once per interval. A newer LUT
+  // arriving before the delayed update runs replaces the older one. While
+  // previewing, the LUT is held back until the preview ends
+  useEffect(() => {
+    latestLUTRef.current = lutBase64
+    if (!map.current || !lutBase64 || isPreviewing || originalLUT) return
+
+    const elapsed = performance.now() - lastLUTUpdateRef.current
+    const timeout = setTimeout(() => commitLUT(lutBase64), Math.max(0, LUT_UPDATE_INTERVAL - elapsed))
+
+    return () => clearTimeout(timeout)
+  }, [lutBase64, isPreviewing, originalLUT])
+
+  // Flip between the grade and the original on the same map, straight away
+  useEffect(() => {
+    if (!map.current || isPreviewing) return
+    commitLUT(originalLUT ?? latestLUTRef.current)
+  }, [originalLUT, isPreviewing])
+
+  // Create the preview renderer alongside the overlay canvas
+  useEffect(() => {
+    if (!previewCanvasRef.current) return
+    const renderer = createPreviewRenderer(previewCanvasRef.current)
+    previewRendererRef.current = renderer
+
+    return () => {
+      renderer?.dispose()
+      previewRendererRef.current = null
+    }
+  }, [])
 
-  // Update LUT when it changes
+  // While previewing, show the map with an identity LUT and draw every frame
+  // through the preview shader on top of it
   useEffect(() => {
-    if (map.current && lutBase64) {
-      map.current.setConfigProperty('basemap', 'theme-data', lutBase64)
+    const mapInstance = map.current
+    const renderer = previewRendererRef.current
+    if (!mapInstance || !renderer || !isPreviewing) return
+
+    // Wait for the identity LUT to render before drawing from the map
+    let sourceReady = false
+    const draw = () => {
+      if (!sourceReady || !previewParamsRef.current) return
+      renderer.render(mapInstance.getCanvas(), previewParamsRef.current, getColorVisionMatrix(colorVisionRef.current))
     }
-  }, [lutBase64])
+    const handleSourceReady = () => {
+      sourceReady = true
+      draw()
+      setIsPreviewVisible(true)
+    }
+
+    // The identity LUT lets the preview shader grade the untouched map
+    committedLUTRef.current = getIdentityLUTPNG()
+    mapInstance.setConfigProperty('basemap', 'theme-data', committedLUTRef.current)
+    mapInstance.once('idle', handleSourceReady)
+    mapInstance.on('render', draw)
+    drawPreviewRef.current = draw
+
+    return () => {
+      mapInstance.off('idle', handleSourceReady)
+      mapInstance.off('render', draw)
+      drawPreviewRef.current = null
+
+      // Keep the last preview frame up until the real LUT has rendered
+      commitLUT(latestLUTRef.current)
+      mapInstance.once('idle', () => setIsPreviewVisible(false))
+    }
+  }, [isPreviewing])
+
+  // Redraw the preview when the grade changes, even if the map hasn't moved
+  useEffect(() => {
+    previewParamsRef.current = previewParams
+    colorVisionRef.current = colorVision
+    drawPreviewRef.current?.()
+    requestFrameRef.current?.()
+  }, [previewParams, colorVision])
+
+  useEffect(() => {
+    isPreviewVisibleRef.current = isPreviewVisible
+  }, [isPreviewVisible])
+
+  // Hand whichever canvas is on screen to onFrame and the zebra overlay, at
+  // most once per interval
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance || (!onFrame && !showZebra)) return
+
+    let lastFrame = 0
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const emitFrame = () => {
+      timeout = undefined
+      lastFrame = performance.now()
+      const preview = previewCanvasRef.current
+      const source = isPreviewVisibleRef.current && preview ? preview : mapInstance.getCanvas()
+
+      if (showZebra && zebraCanvasRef.current) {
+        const frame = readFrame(source, ZEBRA_SAMPLE_WIDTH)
+        if (frame) drawZebra(zebraCanvasRef.current, frame)
+      }
+      onFrame?.(source)
+    }
+    const requestFrame = () => {
+      if (timeout !== undefined) return
+      timeout = setTimeout(emitFrame, Math.max(0, FRAME_INTERVAL - (performance.now() - lastFrame)))
+    }
+
+    mapInstance.on('render', requestFrame)
+    requestFrameRef.current = requestFrame
+    requestFrame()
+
+    return () => {
+      mapInstance.off('render', requestFrame)
+      requestFrameRef.current = null
+      clearTimeout(timeout)
+    }
+  }, [onFrame, showZebra])
 
   // Handle eyedropper mode with magnified pixel picker
   useEffect(() => {
@@ -146,6 +347,39 @@ export default function Map({ lutBase64, isPickingColor = false, onColorPicked }
   return (
     <>
       <div ref={mapContainer} style={{ width: '100%', height: '100%' }} />
+
+      {/* GPU preview of the grade while dragging */}
+      <canvas
+        ref={previewCanvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{ visibility: isPreviewVisible ? 'visible' : 'hidden' }}
+      />
+
+      {showZebra && (
+        <canvas
+          ref={zebraCanvasRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          style={{ imageRendering: 'pixelated' }}
+        />
+      )}
+
+      {/* Hidden rather than removed while flipped, so it needn't reload */}
+      {loadedMap && reference && (
+        <div className={`absolute inset-0 pointer-events-none ${originalLUT ? 'invisible' : ''}`}>
+          <ReferenceMap
+            primary={loadedMap}
+            lut={reference.lut}
+            styleConfig={styleConfig}
+            label={reference.label}
+          />
+        </div>
+      )}
+
+      {originalLUT && (
+        <span className="absolute top-3 left-3 px-2 py-1 text-xs bg-gray-900/80 rounded pointer-events-none">
+          Original
+        </span>
+      )}
       
       {/* Magnified Pixel Picker */}
       {isPickingColor && pickerPosition && pixelGrid && (
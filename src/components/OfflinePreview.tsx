@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react'
+import { Cross2Icon, UploadIcon } from '@radix-ui/react-icons'
+import { applyLUTToImage } from '../utils/lutUtils'
+import { LUT_INTERPOLATIONS, type LUTCube, type LUTInterpolation } from '../utils/lutCube'
+import { BUILT_IN_SAMPLE_IMAGES, type SampleImage } from '../utils/sampleImages'
+
+// Width images are graded at, whatever their own size
+const PREVIEW_WIDTH = 1280
+
+interface OfflinePreviewProps {
+  lutCube: LUTCube
+  reason: string | null // Why the live map isn't available, if it isn't
+  showOriginal: boolean
+  onClose?: () => void // Go back to the live map, when it's available
+}
+
+// Preview the grade on bundled sketches or the user's own images, for when
+// the live map can't be used
+export default function OfflinePreview({ lutCube, reason, showOriginal, onClose }: OfflinePreviewProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [userImages, setUserImages] = useState<SampleImage[]>([])
+  const [selectedId, setSelectedId] = useState(BUILT_IN_SAMPLE_IMAGES[0].id)
+  const [gradedSrc, setGradedSrc] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [interpolation, setInterpolation] = useState<LUTInterpolation>('tetrahedral')
+  const pendingRef = useRef<{ url: string; cube: LUTCube; interpolation: LUTInterpolation } | null>(null)
+  const isGradingRef = useRef(false)
+  const userImagesRef = useRef(userImages)
+
+  const images = [...BUILT_IN_SAMPLE_IMAGES, ...userImages]
+  const selected = images.find(image => image.id === selectedId) ?? images[0]
+
+  // Grade one image at a time; a newer LUT replaces any waiting request
+  useEffect(() => {
+    pendingRef.current = { url: selected.url, cube: lutCube, interpolation }
+    if (isGradingRef.current) return
+
+    const gradeNext = async () => {
+      isGradingRef.current = true
+      while (pendingRef.current) {
+        const { url, cube, interpolation } = pendingRef.current
+        pendingRef.current = null
+        try {
+          setGradedSrc(await applyLUTToImage(url, cube, interpolation, PREVIEW_WIDTH))
+          setError(null)
+        } catch (err) {
+          console.error('Failed to grade preview image:', err)
+          setError(err instanceof Error ? err.message : 'Failed to grade image')
+        }
+      }
+      isGradingRef.current = false
+    }
+    gradeNext()
+  }, [selected.url, lutCube, interpolation])
+
+  // Dropped images live in object URLs until removed or unmounted
+  useEffect(() => {
+    userImagesRef.current = userImages
+  }, [userImages])
+
+  useEffect(() => {
+    return () => userImagesRef.current.forEach(image => URL.revokeObjectURL(image.url))
+  }, [])
+
+  const addImages = (files: FileList) => {
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('image/'))
+      .map((file, index) => ({
+        id: `${Date.now()}-${index}`,
+        name: file.name,
+        url: URL.createObjectURL(file),
+        builtIn: false
+      }))
+
+    if (added.length === 0) {
+      setError('Only image files can be previewed')
+      return
+    }
+    setUserImages(current => [...current, ...added])
+    setSelectedId(added[0].id)
+  }
+
+  const removeImage = (image: SampleImage) => {
+    URL.revokeObjectURL(image.url)
+    setUserImages(current => current.filter(i => i.id !== image.id))
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) addImages(e.target.files)
+    // Allow re-adding the same file
+    e.target.value = ''
+  }
+
+  return (
+    <div
+      className="absolute inset-0 flex flex-col bg-gray-900"
+      onDragOver={(e) => {
+        e.preventDefault()
+        setIsDragOver(true)
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault()
+        setIsDragOver(false)
+        addImages(e.dataTransfer.files)
+      }}
+    >
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-700 text-xs">
+        {images.map(image => (
+          <div
+            key={image.id}
+            className={`flex items-center gap-1 px-2 py-1 rounded transition-colors cursor-pointer ${
+              image.id === selected.id ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            onClick={() => setSelectedId(image.id)}
+          >
+            <span className="max-w-[10rem] truncate" title={image.name}>{image.name}</span>
+            {!image.builtIn && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  removeImage(image)
+                }}
+                title="Remove"
+              >
+                <Cross2Icon className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+        >
+          <UploadIcon className="w-3 h-3" />
+          Add image
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <select
+          value={interpolation}
+          onChange={(e) => setInterpolation(e.target.value as LUTInterpolation)}
+          className="px-1 py-1 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="How colors between LUT entries are looked up"
+        >
+          {LUT_INTERPOLATIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {reason && <span className="ml-auto text-amber-400">Live map unavailable: {reason}</span>}
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="ml-auto px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          >
+            Back to live map
+          </button>
+        )}
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center justify-center p-4">
+        {error ? (
+          <p className="text-xs text-red-400">{error}</p>
+        ) : gradedSrc ? (
+          <img
+            src={showOriginal ? selected.url : gradedSrc}
+            alt={selected.name}
+            className="w-full h-full object-contain"
+          />
+        ) : (
+          <div className="w-2/3 aspect-[8/5] rounded bg-gray-800 animate-pulse" />
+        )}
+        {selected.builtIn && (
+          <span className="absolute bottom-6 left-6 px-2 py-1 text-xs text-gray-300 bg-gray-900/80 rounded">
+            Sketch with approximate Standard colors; drop a map screenshot to check a grade exactly
+          </span>
+        )}
+        {showOriginal && (
+          <span className="absolute top-6 left-6 px-2 py-1 text-xs bg-gray-900/80 rounded">Original</span>
+        )}
+        {isDragOver && (
+          <div className="absolute inset-4 flex items-center justify-center border-2 border-dashed border-blue-500 rounded-lg bg-gray-900/80 text-sm pointer-events-none">
+            Drop images to preview the theme on them
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { DragHandleDots2Icon, EyeOpenIcon, EyeClosedIcon } from '@radix-ui/react-icons'
+import IconButton from './IconButton'
+import ResetButton from './ResetButton'
+import { PIPELINE_STAGES, type PipelineStageConfig } from '../utils/pipelineStages'
+
+interface PipelinePanelProps {
+  pipeline: PipelineStageConfig[]
+  onChange: (pipeline: PipelineStageConfig[]) => void
+  onReset?: () => void
+}
+
+export default function PipelinePanel({ pipeline, onChange, onReset }: PipelinePanelProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const toggleStage = (index: number) => {
+    onChange(pipeline.map((stage, i) => i === index ? { ...stage, enabled: !stage.enabled } : stage))
+  }
+
+  const handleDrop = () => {
+    if (draggedIndex !== null && dropIndex !== null && draggedIndex !== dropIndex) {
+      const reordered = [...pipeline]
+      const [moved] = reordered.splice(draggedIndex, 1)
+      reordered.splice(dropIndex, 0, moved)
+      onChange(reordered)
+    }
+    setDraggedIndex(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <h3 className="text-sm font-semibold">Processing Pipeline</h3>
+        {onReset && <ResetButton onReset={onReset} title="Reset order and bypass" />}
+      </div>
+      <p className="text-xs text-gray-400">
+        Stages run top to bottom. Drag to reorder, toggle the eye to bypass.
+      </p>
+      <ol className="space-y-1" onDragLeave={() => setDropIndex(null)}>
+        {pipeline.map((stage, index) => (
+          <li
+            key={stage.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move'
+              setDraggedIndex(index)
+            }}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDropIndex(index)
+            }}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop()
+            }}
+            onDragEnd={() => {
+              setDraggedIndex(null)
+              setDropIndex(null)
+            }}
+            className={`flex items-center gap-2 px-2 py-1 rounded bg-gray-700 text-xs cursor-grab transition-colors ${
+              dropIndex === index && draggedIndex !== index ? 'ring-2 ring-blue-500' : ''
+            } ${draggedIndex === index ? 'opacity-50' : ''}`}
+          >
+            <DragHandleDots2Icon className="w-3 h-3 text-gray-400 shrink-0" />
+            <span className="text-gray-400 w-4 text-right">{index + 1}</span>
+            <span className={`flex-1 truncate ${stage.enabled ? '' : 'line-through text-gray-500'}`}>
+              {PIPELINE_STAGES[stage.id].label}
+            </span>
+            <IconButton
+              onClick={() => toggleStage(index)}
+              title={stage.enabled ? 'Bypass stage' : 'Enable stage'}
+              size="small"
+            >
+              {stage.enabled
+                ? <EyeOpenIcon className="w-3 h-3" />
+                : <EyeClosedIcon className="w-3 h-3 text-gray-400" />}
+            </IconButton>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
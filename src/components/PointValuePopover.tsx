@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import * as Popover from '@radix-ui/react-popover'
+import { Cross2Icon, Pencil1Icon } from '@radix-ui/react-icons'
+import type { Point } from '../utils/colorUtils'
+
+interface PointValuePopoverProps {
+  title: string
+  point: Point | null // Nothing to edit when null
+  onChange: (point: Point) => void
+  min: number
+  max: number
+  xLabel?: string
+  yLabel?: string
+}
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  onCommit: (value: number) => void
+}
+
+// Number input that only commits on Enter or blur, so partially typed
+// values like "0." or "-" don't jump the control around
+function NumberField({ label, value, min, max, onCommit }: NumberFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft === null) return
+    const parsed = parseFloat(draft)
+    if (Number.isFinite(parsed)) {
+      onCommit(Math.max(min, Math.min(max, parsed)))
+    }
+    setDraft(null)
+  }
+
+  return (
+    <label className="flex items-center gap-2 text-xs">
+      <span className="w-4 text-gray-400">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={0.001}
+        value={draft ?? value.toFixed(3)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit()
+          if (e.key === 'Escape') setDraft(null)
+        }}
+        className="w-24 px-2 py-1 bg-gray-900 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+      />
+    </label>
+  )
+}
+
+export default function PointValuePopover({
+  title,
+  point,
+  onChange,
+  min,
+  max,
+  xLabel = 'X',
+  yLabel = 'Y'
+}: PointValuePopoverProps) {
+  return (
+    <Popover.Root>
+      <Popover.Trigger
+        disabled={!point}
+        title={point ? title : 'Select a point to edit its values'}
+        className="w-4 h-4 shrink-0 rounded border border-gray-500 bg-gray-600 hover:bg-gray-500 transition-colors flex items-center justify-center cursor-pointer text-white px-0 disabled:opacity-40 disabled:cursor-default"
+      >
+        <Pencil1Icon className="w-2.5 h-2.5" />
+      </Popover.Trigger>
+
+      <Popover.Portal>
+        <Popover.Content
+          className="bg-gray-800 rounded-lg shadow-xl border border-gray-700 p-3 z-50 text-white"
+          sideOffset={5}
+          side="right"
+          align="start"
+        >
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <h4 className="text-xs font-semibold">{title}</h4>
+            <Popover.Close className="text-gray-400 hover:text-white" aria-label="Close">
+              <Cross2Icon className="w-3 h-3" />
+            </Popover.Close>
+          </div>
+          {point && (
+            <div className="space-y-2">
+              <NumberField
+                label={xLabel}
+                value={point.x}
+                min={min}
+                max={max}
+                onCommit={(x) => onChange({ ...point, x })}
+              />
+              <NumberField
+                label={yLabel}
+                value={point.y}
+                min={min}
+                max={max}
+                onCommit={(y) => onChange({ ...point, y })}
+              />
+            </div>
+          )}
+          <Popover.Arrow className="fill-gray-700" />
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  )
+}
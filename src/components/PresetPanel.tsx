@@ -0,0 +1,122 @@
+import { useRef, useState } from 'react'
+import { PlusIcon, TrashIcon, Pencil1Icon, DownloadIcon, UploadIcon } from '@radix-ui/react-icons'
+import IconButton from './IconButton'
+import PresetThumbnail from './PresetThumbnail'
+import type { Preset } from '../utils/presets'
+
+interface PresetPanelProps {
+  presets: Preset[]
+  error: string | null
+  onApply: (preset: Preset) => void
+  onSaveCurrent: () => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onImport: (file: File) => void
+  onExport: () => void
+}
+
+export default function PresetPanel({
+  presets,
+  error,
+  onApply,
+  onSaveCurrent,
+  onRename,
+  onDelete,
+  onImport,
+  onExport
+}: PresetPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const startRename = (preset: Preset) => {
+    setEditingId(preset.id)
+    setEditingName(preset.name)
+  }
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onImport(file)
+    // Allow re-importing the same file
+    e.target.value = ''
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Presets</h3>
+        <div className="flex gap-1">
+          <IconButton onClick={() => fileInputRef.current?.click()} title="Import presets" size="small">
+            <UploadIcon className="w-3 h-3" />
+          </IconButton>
+          <IconButton onClick={onExport} title="Export my presets" size="small">
+            <DownloadIcon className="w-3 h-3" />
+          </IconButton>
+          <button
+            onClick={onSaveCurrent}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Save
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        {presets.map(preset => (
+          <div
+            key={preset.id}
+            onClick={() => onApply(preset)}
+            className="bg-gray-700 rounded-lg p-1.5 hover:bg-gray-600 transition-colors cursor-pointer"
+          >
+            <PresetThumbnail parameters={preset.parameters} title={preset.name} />
+            <div className="flex items-center justify-between gap-1 mt-1">
+              {editingId === preset.id ? (
+                <input
+                  autoFocus
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="min-w-0 flex-1 px-1 text-xs bg-gray-800 border border-gray-600 rounded focus:outline-none"
+                />
+              ) : (
+                <span className="text-xs truncate" title={preset.name}>{preset.name}</span>
+              )}
+              {!preset.builtIn && editingId !== preset.id && (
+                <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                  <IconButton onClick={() => startRename(preset)} title="Rename" size="xs">
+                    <Pencil1Icon className="w-2.5 h-2.5" />
+                  </IconButton>
+                  <IconButton onClick={() => onDelete(preset.id)} title="Delete" size="xs">
+                    <TrashIcon className="w-2.5 h-2.5 text-red-400" />
+                  </IconButton>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import sampleMapURL from '../assets/sample-map.svg'
+import { applyLUTToImage, generateLUTCube, type LUTParameters } from '../utils/lutUtils'
+
+interface PresetThumbnailProps {
+  parameters: LUTParameters
+  title?: string
+}
+
+// The bundled sample map rendered through the preset's LUT
+export default function PresetThumbnail({ parameters, title }: PresetThumbnailProps) {
+  const [src, setSrc] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    applyLUTToImage(sampleMapURL, generateLUTCube(parameters))
+      .then(result => {
+        if (!cancelled) setSrc(result)
+      })
+      .catch(err => console.error('Failed to render preset thumbnail:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [parameters])
+
+  return src ? (
+    <img src={src} alt={title} title={title} className="w-full aspect-[8/5] rounded object-cover" />
+  ) : (
+    <div className="w-full aspect-[8/5] rounded bg-gray-700 animate-pulse" />
+  )
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react'
+import mapboxgl from 'mapbox-gl'
+import { MAP_STYLE_URL, applyStyleConfig, type StyleConfig } from '../utils/mapStyle'
+
+interface ReferenceMapProps {
+  primary: mapboxgl.Map // Map whose camera this one follows
+  lut: string
+  styleConfig: StyleConfig
+  label: string
+}
+
+// A second, non-interactive map drawn over the primary one with a reference
+// LUT, clipped to the left of a draggable divider for before/after reviews
+export default function ReferenceMap({ primary, lut, styleConfig, label }: ReferenceMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<mapboxgl.Map | null>(null)
+  const appliedLUTRef = useRef(lut)
+  const appliedStyleConfigRef = useRef(styleConfig)
+  const [split, setSplit] = useState(0.5)
+  const [isDragging, setIsDragging] = useState(false)
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const reference = new mapboxgl.Map({
+      container: containerRef.current,
+      style: MAP_STYLE_URL,
+      center: primary.getCenter(),
+      zoom: primary.getZoom(),
+      bearing: primary.getBearing(),
+      pitch: primary.getPitch(),
+      interactive: false,
+      attributionControl: false,
+      config: {
+        basemap: {
+          ...appliedStyleConfigRef.current,
+          theme: 'custom',
+          'theme-data': appliedLUTRef.current
+        }
+      }
+    })
+    mapRef.current = reference
+
+    // Keep the camera in step with the primary map
+    const syncCamera = () => {
+      reference.jumpTo({
+        center: primary.getCenter(),
+        zoom: primary.getZoom(),
+        bearing: primary.getBearing(),
+        pitch: primary.getPitch()
+      })
+    }
+    primary.on('move', syncCamera)
+
+    return () => {
+      primary.off('move', syncCamera)
+      reference.remove()
+      mapRef.current = null
+    }
+  }, [primary])
+
+  useEffect(() => {
+    if (!mapRef.current || lut === appliedLUTRef.current) return
+    appliedLUTRef.current = lut
+    mapRef.current.setConfigProperty('basemap', 'theme-data', lut)
+  }, [lut])
+
+  useEffect(() => {
+    if (!mapRef.current || styleConfig === appliedStyleConfigRef.current) return
+    applyStyleConfig(mapRef.current, styleConfig, appliedStyleConfigRef.current)
+    appliedStyleConfigRef.current = styleConfig
+  }, [styleConfig])
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setIsDragging(true)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = wrapperRef.current?.getBoundingClientRect()
+    if (!isDragging || !rect) return
+    setSplit(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)))
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+    setIsDragging(false)
+  }
+
+  return (
+    <div ref={wrapperRef} className="absolute inset-0 pointer-events-none">
+      <div
+        ref={containerRef}
+        className="absolute inset-0"
+        style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+      />
+
+      <span className="absolute top-3 left-3 px-2 py-1 text-xs bg-gray-900/80 rounded">
+        {label}
+      </span>
+      <span className="absolute top-3 right-3 px-2 py-1 text-xs bg-gray-900/80 rounded">
+        Current
+      </span>
+      {/* Divider, dragged by its handle */}
+      <div
+        className="absolute inset-y-0 w-0.5 bg-white shadow"
+        style={{ left: `${split * 100}%` }}
+      >
+        <div
+          className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-10 rounded bg-white border border-gray-400 cursor-ew-resize pointer-events-auto touch-none"
+          title="Drag to compare"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+    </div>
+  )
+}
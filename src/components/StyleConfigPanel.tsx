@@ -0,0 +1,64 @@
+import ResetButton from './ResetButton'
+import { LIGHT_PRESETS, STYLE_FONTS, STYLE_TOGGLES, type StyleConfig } from '../utils/mapStyle'
+
+interface StyleConfigPanelProps {
+  config: StyleConfig
+  onChange: (config: StyleConfig) => void
+  onReset?: () => void
+}
+
+export default function StyleConfigPanel({ config, onChange, onReset }: StyleConfigPanelProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <h3 className="text-sm font-semibold">Map Style</h3>
+        {onReset && <ResetButton onReset={onReset} title="Reset map style" />}
+      </div>
+      <p className="text-xs text-gray-400">
+        Basemap options saved with the theme. They change what the map shows, not the LUT.
+      </p>
+
+      <div className="flex rounded overflow-hidden border border-gray-600 text-xs">
+        {LIGHT_PRESETS.map(preset => (
+          <button
+            key={preset.value}
+            onClick={() => onChange({ ...config, lightPreset: preset.value })}
+            className={`flex-1 py-1 transition-colors ${
+              config.lightPreset === preset.value ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            aria-pressed={config.lightPreset === preset.value}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between text-xs">
+        <span>Font</span>
+        <select
+          value={config.font}
+          onChange={(e) => onChange({ ...config, font: e.target.value })}
+          className="px-1 py-0.5 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {STYLE_FONTS.map(font => (
+            <option key={font} value={font}>{font}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-1">
+        {STYLE_TOGGLES.map(toggle => (
+          <label key={toggle.key} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={config[toggle.key]}
+              onChange={(e) => onChange({ ...config, [toggle.key]: e.target.checked })}
+              className="accent-blue-500"
+            />
+            {toggle.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
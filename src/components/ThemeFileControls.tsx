@@ -0,0 +1,79 @@
+import { useRef } from 'react'
+import { DownloadIcon, UploadIcon, Link2Icon } from '@radix-ui/react-icons'
+
+interface ThemeFileControlsProps {
+  name: string
+  error: string | null
+  onNameChange: (name: string) => void
+  onSave: () => void
+  onLoad: (file: File) => void
+  onCopyLink: () => void
+  linkExcludesBaseLUT?: boolean
+}
+
+export default function ThemeFileControls({
+  name,
+  error,
+  onNameChange,
+  onSave,
+  onLoad,
+  onCopyLink,
+  linkExcludesBaseLUT = false
+}: ThemeFileControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onLoad(file)
+    // Allow re-loading the same file
+    e.target.value = ''
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => onNameChange(e.target.value)}
+        placeholder="Theme name"
+        className="w-full px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={onSave}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-[10px] bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+        >
+          <DownloadIcon className="w-3 h-3" />
+          Save Theme
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-[10px] bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+        >
+          <UploadIcon className="w-3 h-3" />
+          Load Theme
+        </button>
+        <button
+          onClick={onCopyLink}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-[10px] bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+        >
+          <Link2Icon className="w-3 h-3" />
+          Copy Link
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+      {linkExcludesBaseLUT && (
+        <p className="text-xs text-gray-400 italic">
+          Links don't include the imported base LUT. Save the theme to share it.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
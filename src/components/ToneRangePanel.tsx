@@ -0,0 +1,92 @@
+import ParameterSlider from './ParameterSlider'
+import ResetButton from './ResetButton'
+import { toneWeights, type ToneRanges } from '../utils/wheelUtils'
+
+interface ToneRangePanelProps {
+  ranges: ToneRanges
+  onChange: (ranges: ToneRanges) => void
+  onReset?: () => void
+}
+
+const GRAPH_WIDTH = 240
+const GRAPH_HEIGHT = 48
+const GRAPH_SAMPLES = 60
+
+// Lift, gamma and gain weights drawn across the luminance range
+const weightPaths = (ranges: ToneRanges): string[] => {
+  const paths = ['', '', '']
+  for (let i = 0; i <= GRAPH_SAMPLES; i++) {
+    const luminance = i / GRAPH_SAMPLES
+    const weights = toneWeights(luminance, ranges)
+    weights.forEach((weight, w) => {
+      const x = luminance * GRAPH_WIDTH
+      const y = (1 - weight) * GRAPH_HEIGHT
+      paths[w] += `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`
+    })
+  }
+  return paths
+}
+
+const RANGE_COLORS = ['#60a5fa', '#a3a3a3', '#fbbf24']
+
+export default function ToneRangePanel({ ranges, onChange, onReset }: ToneRangePanelProps) {
+  const update = (key: keyof ToneRanges, value: number) => {
+    const next = { ...ranges, [key]: value }
+    // Keep the midtone range from collapsing
+    if (key === 'midtonesStart') next.midtonesEnd = Math.max(next.midtonesEnd, value + 0.05)
+    if (key === 'midtonesEnd') next.midtonesStart = Math.min(next.midtonesStart, value - 0.05)
+    onChange(next)
+  }
+
+  const paths = weightPaths(ranges)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <label className="text-xs font-medium">Tone Ranges</label>
+        {onReset && <ResetButton onReset={onReset} />}
+      </div>
+      <svg
+        viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+        className="w-full h-12 bg-gray-900 rounded border border-gray-700"
+        preserveAspectRatio="none"
+      >
+        {paths.map((d, i) => (
+          <path key={i} d={d} fill="none" stroke={RANGE_COLORS[i]} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+      <ParameterSlider
+        label="Shadows End"
+        value={ranges.shadowsEnd}
+        onChange={(value) => update('shadowsEnd', value)}
+        min={0.05}
+        max={1}
+        step={0.01}
+      />
+      <ParameterSlider
+        label="Midtones Start"
+        value={ranges.midtonesStart}
+        onChange={(value) => update('midtonesStart', value)}
+        min={0}
+        max={0.95}
+        step={0.01}
+      />
+      <ParameterSlider
+        label="Midtones End"
+        value={ranges.midtonesEnd}
+        onChange={(value) => update('midtonesEnd', value)}
+        min={0.05}
+        max={1}
+        step={0.01}
+      />
+      <ParameterSlider
+        label="Highlights Start"
+        value={ranges.highlightsStart}
+        onChange={(value) => update('highlightsStart', value)}
+        min={0}
+        max={0.95}
+        step={0.01}
+      />
+    </div>
+  )
+}
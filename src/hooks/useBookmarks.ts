@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  BUILT_IN_BOOKMARKS,
+  loadUserBookmarks,
+  saveUserBookmarks,
+  type CameraBookmark
+} from '../utils/bookmarks'
+
+// Built-in camera bookmarks plus user bookmarks persisted to localStorage
+export default function useBookmarks() {
+  const [userBookmarks, setUserBookmarks] = useState<CameraBookmark[]>(loadUserBookmarks)
+
+  useEffect(() => {
+    try {
+      saveUserBookmarks(userBookmarks)
+    } catch (err) {
+      console.error('Failed to save bookmarks:', err)
+    }
+  }, [userBookmarks])
+
+  const addBookmark = useCallback((name: string, camera: Omit<CameraBookmark, 'id' | 'name' | 'builtIn'>) => {
+    setUserBookmarks(current => [
+      ...current,
+      { id: Date.now().toString(), name, builtIn: false, ...camera }
+    ])
+  }, [])
+
+  const renameBookmark = useCallback((id: string, name: string) => {
+    setUserBookmarks(current => current.map(b => b.id === id ? { ...b, name } : b))
+  }, [])
+
+  const deleteBookmark = useCallback((id: string) => {
+    setUserBookmarks(current => current.filter(b => b.id !== id))
+  }, [])
+
+  return {
+    bookmarks: [...BUILT_IN_BOOKMARKS, ...userBookmarks],
+    addBookmark,
+    renameBookmark,
+    deleteBookmark
+  }
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react'
+
+// Oldest entries are dropped past this length
+const MAX_ENTRIES = 100
+
+export interface HistoryEntry<T> {
+  state: T
+  label: string
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[]
+  index: number
+  mergeKey: string | null // Key of the change still open for merging
+}
+
+// Undo/redo stack around a single piece of state
+export default function useHistory<T>(initial: () => T, initialLabel = 'Initial state') {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    entries: [{ state: initial(), label: initialLabel }],
+    index: 0,
+    mergeKey: null
+  }))
+
+  // Record a change. Consecutive changes with the same mergeKey replace the
+  // current entry instead of pushing a new one, until the gesture ends
+  const set = useCallback((update: (current: T) => T, label: string, mergeKey: string | null = null) => {
+    setHistory(current => {
+      const state = update(current.entries[current.index].state)
+      const isMerge = mergeKey !== null && mergeKey === current.mergeKey
+
+      // A new change discards anything that was undone
+      const kept = current.entries.slice(0, isMerge ? current.index : current.index + 1)
+      const entries = [...kept, { state, label }].slice(-MAX_ENTRIES)
+
+      return { entries, index: entries.length - 1, mergeKey }
+    })
+  }, [])
+
+  // A gesture ends when the pointer is released or focus leaves a control,
+  // so one drag or one round of key nudges becomes a single undo step
+  useEffect(() => {
+    const endGesture = () => {
+      setHistory(current => current.mergeKey === null ? current : { ...current, mergeKey: null })
+    }
+
+    window.addEventListener('pointerup', endGesture)
+    window.addEventListener('pointercancel', endGesture)
+    window.addEventListener('focusout', endGesture)
+    return () => {
+      window.removeEventListener('pointerup', endGesture)
+      window.removeEventListener('pointercancel', endGesture)
+      window.removeEventListener('focusout', endGesture)
+    }
+  }, [])
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(current => {
+      if (index < 0 || index >= current.entries.length) return current
+      return { ...current, index, mergeKey: null }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(current => current.index > 0
+      ? { ...current, index: current.index - 1, mergeKey: null }
+      : current)
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(current => current.index < current.entries.length - 1
+      ? { ...current, index: current.index + 1, mergeKey: null }
+      : current)
+  }, [])
+
+  // Start over from a new state, clearing all history
+  const reset = useCallback((state: T, label = initialLabel) => {
+    setHistory({ entries: [{ state, label }], index: 0, mergeKey: null })
+  }, [initialLabel])
+
+  return {
+    present: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    set,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  }
+}
@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { generateLUTCube, type LUTParameters } from '../utils/lutUtils'
+import { encodeLUTToPNG } from '../utils/lutEncoders'
+import { analyzeClipping, type ClippingReport } from '../utils/clipping'
+import { findAllCollapsedFeatureColors, type DeficiencyCollapses } from '../utils/colorVision'
+import type { LUTCube } from '../utils/lutCube'
+import type { LUTWorkerRequest, LUTWorkerResponse } from '../workers/lutWorker'
+
+interface GeneratedLUT {
+  params: LUTParameters // The parameters this LUT was generated from
+  cube: LUTCube
+  dataURL: string
+  clipping: ClippingReport
+  collapses: DeficiencyCollapses[]
+}
+
+const SUPPORTS_WORKER = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+
+const generateSync = (params: LUTParameters): GeneratedLUT => {
+  const cube = generateLUTCube(params)
+  return {
+    params,
+    cube,
+    dataURL: encodeLUTToPNG(cube),
+    clipping: analyzeClipping(params),
+    collapses: findAllCollapsedFeatureColors(cube)
+  }
+}
+
+// Generate the LUT for a set of parameters in a Web Worker. Only one request
+// runs at a time; parameters that change while it runs replace any request
+// still waiting, so stale grades are never generated. Falls back to the main
+// thread where workers or OffscreenCanvas are unavailable. When a generation
+// fails, the last LUT that worked is kept and the error is reported
+export default function useLUTGenerator(params: LUTParameters) {
+  // The first LUT is generated up front so the map starts with the right grade
+  const [generated, setGenerated] = useState(() => generateSync(params))
+  // Why the latest generation failed, until one succeeds
+  const [error, setError] = useState<string | null>(null)
+  const requestRef = useRef<((next: LUTParameters) => void) | null>(null)
+  const lastParamsRef = useRef(params)
+
+  const syncResult = useMemo(() => SUPPORTS_WORKER ? null : generateSync(params), [params])
+
+  useEffect(() => {
+    if (!SUPPORTS_WORKER) return
+
+    const worker = new Worker(new URL('../workers/lutWorker.ts', import.meta.url), { type: 'module' })
+    let inFlight: LUTParameters | null = null
+    let pending: LUTParameters | null = null
+    let lastId = 0
+
+    const send = (next: LUTParameters) => {
+      inFlight = next
+      const request: LUTWorkerRequest = { id: ++lastId, params: next }
+      worker.postMessage(request)
+    }
+
+    // Whether the job worked or not, move on to the request waiting behind it
+    const sendPending = () => {
+      inFlight = null
+      if (pending) {
+        const next = pending
+        pending = null
+        send(next)
+      }
+    }
+
+    worker.onmessage = (e: MessageEvent<LUTWorkerResponse>) => {
+      const response = e.data
+
+      if ('error' in response) {
+        console.error('Failed to generate LUT:', response.error)
+        setError(response.error)
+      } else if (inFlight) {
+        const { cube, dataURL, clipping, collapses } = response
+        setGenerated({ params: inFlight, cube, dataURL, clipping, collapses })
+        setError(null)
+      }
+      sendPending()
+    }
+
+    worker.onerror = (e) => {
+      console.error('LUT worker error:', e.message)
+      setError(e.message || 'The LUT worker stopped unexpectedly')
+      sendPending()
+    }
+
+    // Replace whatever is waiting rather than queueing every change
+    requestRef.current = (next) => {
+      if (inFlight) {
+        pending = next
+      } else {
+        send(next)
+      }
+    }
+
+    return () => {
+      worker.terminate()
+      requestRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (params === lastParamsRef.current) return
+    lastParamsRef.current = params
+    requestRef.current?.(params)
+  }, [params])
+
+  const result = syncResult ?? generated
+  return {
+    lutCube: result.cube,
+    lutBase64: result.dataURL,
+    lutParams: result.params,
+    clipping: result.clipping,
+    colorCollapses: result.collapses,
+    error
+  }
+}
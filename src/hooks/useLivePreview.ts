@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { LUTParameters } from '../utils/lutUtils'
+
+interface Gesture {
+  start: LUTParameters // Parameters when the pointer went down
+  end: LUTParameters | null // Parameters when it was released
+}
+
+// Decide when the map should show the GPU preview instead of the real LUT.
+// The preview runs from the first change in a pointer gesture over the
+// controls until, after release, the LUT for the final parameters is ready.
+// Clicks that change nothing and keyboard edits never start a preview
+export default function useLivePreview(params: LUTParameters, lutParams: LUTParameters) {
+  const [gesture, setGesture] = useState<Gesture | null>(null)
+  const paramsRef = useRef(params)
+
+  useEffect(() => {
+    paramsRef.current = params
+  }, [params])
+
+  const beginGesture = useCallback(() => {
+    setGesture({ start: paramsRef.current, end: null })
+
+    const handlePointerUp = () => {
+      setGesture(current => current && { ...current, end: paramsRef.current })
+      window.removeEventListener('pointerup', handlePointerUp)
+      window.removeEventListener('pointercancel', handlePointerUp)
+    }
+    window.addEventListener('pointerup', handlePointerUp)
+    window.addEventListener('pointercancel', handlePointerUp)
+  }, [])
+
+  const changed = gesture !== null && params !== gesture.start
+  const settling = gesture?.end === params && lutParams !== params
+  const previewing = changed && (gesture.end === null || settling)
+
+  return {
+    previewParams: previewing ? params : null,
+    beginGesture
+  }
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { LUTParameters } from '../utils/lutUtils'
+import { BUILT_IN_PRESETS, loadUserPresets, saveUserPresets, type Preset } from '../utils/presets'
+
+// Built-in presets plus user presets persisted to localStorage
+export default function usePresets() {
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets)
+
+  useEffect(() => {
+    try {
+      saveUserPresets(userPresets)
+    } catch (err) {
+      console.error('Failed to save presets:', err)
+    }
+  }, [userPresets])
+
+  const addPreset = useCallback((name: string, parameters: LUTParameters) => {
+    setUserPresets(current => [
+      ...current,
+      { id: Date.now().toString(), name, builtIn: false, parameters }
+    ])
+  }, [])
+
+  const renamePreset = useCallback((id: string, name: string) => {
+    setUserPresets(current => current.map(p => p.id === id ? { ...p, name } : p))
+  }, [])
+
+  const deletePreset = useCallback((id: string) => {
+    setUserPresets(current => current.filter(p => p.id !== id))
+  }, [])
+
+  const importPresets = useCallback((presets: Preset[]) => {
+    setUserPresets(current => [...current, ...presets])
+  }, [])
+
+  return {
+    presets: [...BUILT_IN_PRESETS, ...userPresets],
+    userPresets,
+    addPreset,
+    renamePreset,
+    deletePreset,
+    importPresets
+  }
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react'
+import type { LUTParameters } from '../utils/lutUtils'
+import type { StyleConfig } from '../utils/mapStyle'
+import { THEME_URL_PARAM, buildShareURL, decodeThemeFromURL } from '../utils/shareUtils'
+
+// How long to wait after the last change before rewriting the URL
+const URL_UPDATE_DELAY = 300
+
+const readEncodedTheme = () => new URLSearchParams(window.location.search).get(THEME_URL_PARAM)
+
+// Restore the theme from the URL on first load, then keep the URL in sync
+// with the current parameters and map style. The map keeps the camera in
+// the hash. A link that fails to restore is left in place, and reported,
+// until the user changes something
+export default function useThemeURL(
+  params: LUTParameters,
+  styleConfig: StyleConfig,
+  name: string,
+  onRestore: (name: string, params: LUTParameters, styleConfig: StyleConfig | null) => void
+) {
+  const [status, setStatus] = useState<'restoring' | 'restored' | 'failed'>(
+    () => readEncodedTheme() === null ? 'restored' : 'restoring'
+  )
+  const [error, setError] = useState<string | null>(null)
+  const onRestoreRef = useRef(onRestore)
+  // The theme shown while the link was being read, to spot the first edit
+  const initialRef = useRef({ params, styleConfig, name })
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore
+  })
+
+  // Read the theme from the URL once on mount
+  useEffect(() => {
+    const encoded = readEncodedTheme()
+    if (encoded === null) return
+
+    decodeThemeFromURL(encoded)
+      .then(({ name, parameters, styleConfig }) => {
+        onRestoreRef.current(name, parameters, styleConfig)
+        setStatus('restored')
+      })
+      .catch(err => {
+        console.error('Failed to restore theme from URL:', err)
+        setError(`Could not open the theme in this link: ${err instanceof Error ? err.message : String(err)}`)
+        setStatus('failed')
+      })
+  }, [])
+
+  // Write changes back, without adding browser history entries
+  useEffect(() => {
+    if (status === 'restoring') return
+    if (status === 'failed') {
+      const initial = initialRef.current
+      if (params === initial.params && styleConfig === initial.styleConfig && name === initial.name) return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      const url = await buildShareURL(params, name, styleConfig)
+      if (!cancelled) {
+        window.history.replaceState(window.history.state, '', url)
+        setError(null)
+      }
+    }, URL_UPDATE_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [params, styleConfig, name, status])
+
+  return { error }
+}
@@ -0,0 +1,23 @@
+import { useEffect } from 'react'
+
+// Call onToggle when a single key is pressed without modifiers. Ignored
+// while typing in text fields
+export default function useToggleShortcut(key: string, onToggle: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return
+
+      if (e.key.toLowerCase() === key) {
+        e.preventDefault()
+        onToggle()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [key, onToggle])
+}
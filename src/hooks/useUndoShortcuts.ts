@@ -0,0 +1,27 @@
+import { useEffect } from 'react'
+
+// Bind Ctrl/Cmd+Z to undo and Shift+Ctrl/Cmd+Z (or Ctrl+Y) to redo.
+// Text fields keep their native undo
+export default function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+}
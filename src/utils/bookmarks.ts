@@ -0,0 +1,92 @@
+import type { Map as MapboxMap } from 'mapbox-gl'
+
+export interface CameraBookmark {
+  id: string
+  name: string
+  builtIn: boolean
+  center: [number, number] // [lng, lat]
+  zoom: number
+  bearing: number
+  pitch: number
+}
+
+// localStorage key for user bookmarks
+const STORAGE_KEY = 'lut-editor:bookmarks'
+
+const builtIn = (id: string, name: string, camera: Omit<CameraBookmark, 'id' | 'name' | 'builtIn'>): CameraBookmark => ({
+  id: `builtin-${id}`,
+  name,
+  builtIn: true,
+  ...camera
+})
+
+// Places with very different palettes, so a grade can be checked beyond
+// the city it was made in. The first one is where the editor opens
+export const BUILT_IN_BOOKMARKS: CameraBookmark[] = [
+  builtIn('urban', 'Lower Manhattan', { center: [-74.01297, 40.70644], zoom: 15.28, bearing: 0, pitch: 60 }),
+  builtIn('water', 'Sydney Harbour', { center: [151.2153, -33.8568], zoom: 13.5, bearing: -20, pitch: 45 }),
+  builtIn('forest', 'Black Forest', { center: [8.2306, 48.1311], zoom: 12, bearing: 0, pitch: 50 }),
+  builtIn('desert', 'Monument Valley', { center: [-110.1, 36.99], zoom: 11.5, bearing: 30, pitch: 60 }),
+  builtIn('snow', 'Matterhorn', { center: [7.6586, 45.9763], zoom: 12, bearing: 0, pitch: 60 })
+]
+
+export const DEFAULT_BOOKMARK = BUILT_IN_BOOKMARKS[0]
+
+// The map's current camera, to save as a bookmark
+export const getCamera = (map: MapboxMap): Omit<CameraBookmark, 'id' | 'name' | 'builtIn'> => {
+  const center = map.getCenter()
+  return {
+    center: [center.lng, center.lat],
+    zoom: map.getZoom(),
+    bearing: map.getBearing(),
+    pitch: map.getPitch()
+  }
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const readBookmark = (entry: unknown): CameraBookmark => {
+  if (typeof entry !== 'object' || entry === null) {
+    throw new Error('Bookmark must be an object')
+  }
+  const { id, name, center, zoom, bearing, pitch } = entry as Record<string, unknown>
+
+  if (typeof id !== 'string' || typeof name !== 'string') {
+    throw new Error('Bookmark must have a string "id" and "name"')
+  }
+  if (!Array.isArray(center) || center.length !== 2 || !center.every(isFiniteNumber)) {
+    throw new Error('"center" must be [lng, lat]')
+  }
+  if (!isFiniteNumber(zoom) || !isFiniteNumber(bearing) || !isFiniteNumber(pitch)) {
+    throw new Error('"zoom", "bearing" and "pitch" must be numbers')
+  }
+
+  return { id, name, builtIn: false, center: [center[0], center[1]], zoom, bearing, pitch }
+}
+
+export const loadUserBookmarks = (): CameraBookmark[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+
+    return stored.flatMap((entry) => {
+      try {
+        return [readBookmark(entry)]
+      } catch (err) {
+        console.error('Skipping invalid bookmark:', err)
+        return []
+      }
+    })
+  } catch (err) {
+    console.error('Failed to read bookmarks:', err)
+    return []
+  }
+}
+
+export const saveUserBookmarks = (bookmarks: CameraBookmark[]) => {
+  const stored = bookmarks.map(({ id, name, center, zoom, bearing, pitch }) => ({
+    id, name, center, zoom, bearing, pitch
+  }))
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+}
@@ -0,0 +1,69 @@
+import { PIPELINE_STAGES, type PipelineStageId } from './pipelineStages'
+import type { LUTParameters } from './lutUtils'
+
+// Coarser than the real LUT; shares of clipped colors barely change with size
+export const CLIPPING_ANALYSIS_SIZE = 17
+
+export interface StageClipping {
+  id: PipelineStageId
+  label: string
+  clipped: number // Cube entries this stage pushed out of range, later clamped
+}
+
+export interface ClippingReport {
+  entries: number
+  stages: StageClipping[] // Enabled stages in pipeline order
+  crushed: number // Entries that end up pure black, not counting black itself
+  blown: number // Entries that end up pure white, not counting white itself
+}
+
+const isOutOfRange = (color: [number, number, number]) =>
+  color[0] < 0 || color[0] > 1 || color[1] < 0 || color[1] > 1 || color[2] < 0 || color[2] > 1
+
+const isBlack = (color: [number, number, number]) => color.every(v => v <= 0)
+const isWhite = (color: [number, number, number]) => color.every(v => v >= 1)
+
+// Grade a cube's worth of colors, following each one through the pipeline.
+// A stage is blamed when it pushes a color outside 0-1 and the color is then
+// clamped (by a stage that clamps its input, or at the end) before any
+// later stage brings it back. Clamps inside a stage aren't counted
+export const analyzeClipping = (params: LUTParameters, cubeSize = CLIPPING_ANALYSIS_SIZE): ClippingReport => {
+  const enabled = params.pipeline.filter(stage => stage.enabled).map(stage => PIPELINE_STAGES[stage.id])
+  const clipped = new Map<PipelineStageId, number>(enabled.map(stage => [stage.id, 0]))
+  const blamed = new Set<PipelineStageId>()
+  let crushed = 0
+  let blown = 0
+
+  for (let b = 0; b < cubeSize; b++) {
+    for (let g = 0; g < cubeSize; g++) {
+      for (let r = 0; r < cubeSize; r++) {
+        const input: [number, number, number] = [r / (cubeSize - 1), g / (cubeSize - 1), b / (cubeSize - 1)]
+        const color: [number, number, number] = [...input]
+        let culprit: PipelineStageId | null = null
+        blamed.clear()
+
+        for (const stage of enabled) {
+          if (stage.clampsInput && culprit) blamed.add(culprit)
+          stage.apply(color, params)
+
+          if (!isOutOfRange(color)) culprit = null
+          else if (culprit === null) culprit = stage.id
+        }
+        // The final clamp
+        if (culprit) blamed.add(culprit)
+
+        for (const id of blamed) clipped.set(id, (clipped.get(id) ?? 0) + 1)
+
+        if (isBlack(color) && !isBlack(input)) crushed++
+        if (isWhite(color) && !isWhite(input)) blown++
+      }
+    }
+  }
+
+  return {
+    entries: cubeSize * cubeSize * cubeSize,
+    stages: enabled.map(stage => ({ id: stage.id, label: stage.label, clipped: clipped.get(stage.id) ?? 0 })),
+    crushed,
+    blown
+  }
+}
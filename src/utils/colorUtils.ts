@@ -44,21 +44,3 @@ export const hsvToRgb = (h: number, s: number, v: number): [number, number, numb
     default: return [v, p, q]
   }
 }
-
-// Interpolate curve value for a given input (0-1)
-export const interpolateCurve = (input: number, curve: Point[]): number => {
-  // Clamp input to 0-1
-  input = Math.max(0, Math.min(1, input))
-  
-  // Find the two points that bracket this input value
-  for (let i = 0; i < curve.length - 1; i++) {
-    if (input >= curve[i].x && input <= curve[i + 1].x) {
-      // Linear interpolation between these two points
-      const t = (input - curve[i].x) / (curve[i + 1].x - curve[i].x)
-      return curve[i].y + t * (curve[i + 1].y - curve[i].y)
-    }
-  }
-  
-  // If we're beyond the last point, return the last y value
-  return curve[curve.length - 1].y
-}
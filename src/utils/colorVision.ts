@@ -0,0 +1,152 @@
+import { sampleLUTCube, type LUTCube } from './lutCube'
+import { STANDARD_COLORS, type RGB, type StandardColorId } from './standardColors'
+
+export type ColorVisionDeficiency = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia'
+
+export const COLOR_VISION_DEFICIENCIES: { value: ColorVisionDeficiency; label: string }[] = [
+  { value: 'none', label: 'Normal vision' },
+  { value: 'protanopia', label: 'Protanopia' },
+  { value: 'deuteranopia', label: 'Deuteranopia' },
+  { value: 'tritanopia', label: 'Tritanopia' },
+  { value: 'achromatopsia', label: 'Achromatopsia' }
+]
+
+// Row-major 3x3 matrices applied to linear RGB. Dichromacies use Machado et
+// al. (2009) at full severity; achromatopsia keeps only luminance
+const SIMULATION_MATRICES: Record<Exclude<ColorVisionDeficiency, 'none'>, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039
+  ],
+  achromatopsia: [
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722
+  ]
+}
+
+export const getColorVisionMatrix = (deficiency: ColorVisionDeficiency): number[] | null =>
+  deficiency === 'none' ? null : SIMULATION_MATRICES[deficiency]
+
+const toLinear = (c: number) => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+const toSRGB = (c: number) => c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
+
+// How a color looks with the given deficiency
+export const simulateColorVision = (color: RGB, deficiency: ColorVisionDeficiency): RGB => {
+  const m = getColorVisionMatrix(deficiency)
+  if (!m) return color
+
+  const [r, g, b] = color.map(toLinear)
+  return [
+    clamp01(toSRGB(clamp01(m[0] * r + m[1] * g + m[2] * b))),
+    clamp01(toSRGB(clamp01(m[3] * r + m[4] * g + m[5] * b))),
+    clamp01(toSRGB(clamp01(m[6] * r + m[7] * g + m[8] * b)))
+  ]
+}
+
+// A cube that grades and then simulates the deficiency, for previews only
+export const simulateColorVisionCube = (cube: LUTCube, deficiency: ColorVisionDeficiency): LUTCube => {
+  if (deficiency === 'none') return cube
+
+  const data = new Float32Array(cube.data.length)
+  for (let i = 0; i < cube.data.length; i += 3) {
+    const simulated = simulateColorVision([cube.data[i], cube.data[i + 1], cube.data[i + 2]], deficiency)
+    data[i] = simulated[0]
+    data[i + 1] = simulated[1]
+    data[i + 2] = simulated[2]
+  }
+  return { ...cube, data }
+}
+
+// Features that readers need to tell apart by color alone
+const COLLAPSE_FEATURES: StandardColorId[] = [
+  'land',
+  'water',
+  'park',
+  'building',
+  'road',
+  'motorway',
+  'pointOfInterest',
+  'label',
+  'waterLabel'
+]
+
+// CIE L*a*b* under D65
+const toLab = (color: RGB): RGB => {
+  const [r, g, b] = color.map(toLinear)
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))]
+}
+
+// CIE76 color difference; around 2 is just noticeable
+export const colorDifference = (a: RGB, b: RGB): number => {
+  const [l1, a1, b1] = toLab(a)
+  const [l2, a2, b2] = toLab(b)
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2)
+}
+
+// Below this, two features read as the same color on a map
+export const COLLAPSE_THRESHOLD = 8
+
+export interface ColorCollapse {
+  a: string
+  b: string
+  before: number // Difference without the grade
+  after: number // Difference with it
+}
+
+// Feature pairs that are distinguishable in the ungraded style but not once
+// the grade is applied, as seen with the given deficiency
+export const findCollapsedFeatureColors = (
+  cube: LUTCube,
+  deficiency: ColorVisionDeficiency,
+  threshold = COLLAPSE_THRESHOLD
+): ColorCollapse[] => {
+  const features = COLLAPSE_FEATURES.map(id => {
+    const { name, color } = STANDARD_COLORS[id]
+    return {
+      name,
+      original: simulateColorVision(color, deficiency),
+      graded: simulateColorVision(sampleLUTCube(cube, color[0], color[1], color[2], 'tetrahedral'), deficiency)
+    }
+  })
+
+  const collapses: ColorCollapse[] = []
+  for (let i = 0; i < features.length; i++) {
+    for (let j = i + 1; j < features.length; j++) {
+      const before = colorDifference(features[i].original, features[j].original)
+      const after = colorDifference(features[i].graded, features[j].graded)
+      if (before >= threshold && after < threshold) {
+        collapses.push({ a: features[i].name, b: features[j].name, before, after })
+      }
+    }
+  }
+  return collapses
+}
+
+export interface DeficiencyCollapses {
+  deficiency: ColorVisionDeficiency
+  collapses: ColorCollapse[]
+}
+
+// Collapsed feature pairs under every kind of color vision, normal included
+export const findAllCollapsedFeatureColors = (cube: LUTCube): DeficiencyCollapses[] =>
+  COLOR_VISION_DEFICIENCIES.map(({ value }) => ({
+    deficiency: value,
+    collapses: findCollapsedFeatureColors(cube, value)
+  }))
@@ -0,0 +1,76 @@
+import { sampleLUTCube, type LUTCube } from './lutCube'
+import { STANDARD_COLORS, type RGB, type StandardColorId } from './standardColors'
+
+// Text needs more contrast than shapes like roads and icons
+export type ContrastKind = 'text' | 'graphic'
+
+export interface ContrastPair {
+  foreground: StandardColorId
+  background: StandardColorId
+  kind: ContrastKind
+}
+
+// Standard style colors that are drawn on top of each other
+export const STANDARD_CONTRAST_PAIRS: ContrastPair[] = [
+  { foreground: 'label', background: 'land', kind: 'text' },
+  { foreground: 'label', background: 'road', kind: 'text' },
+  { foreground: 'label', background: 'building', kind: 'text' },
+  { foreground: 'waterLabel', background: 'water', kind: 'text' },
+  { foreground: 'parkLabel', background: 'park', kind: 'text' },
+  { foreground: 'pointOfInterest', background: 'land', kind: 'graphic' },
+  { foreground: 'pointOfInterest', background: 'park', kind: 'graphic' },
+  { foreground: 'motorway', background: 'land', kind: 'graphic' }
+]
+
+// WCAG 2 relative luminance
+const relativeLuminance = (color: RGB): number => {
+  const [r, g, b] = color.map(c => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4))
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+// WCAG contrast ratio, from 1 to 21
+export const contrastRatio = (a: RGB, b: RGB): number => {
+  const la = relativeLuminance(a)
+  const lb = relativeLuminance(b)
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05)
+}
+
+export type ContrastLevel = 'AAA' | 'AA' | 'fail'
+
+// Text uses the normal-size thresholds (SC 1.4.3 and 1.4.6); graphics only
+// have the 3:1 non-text threshold (SC 1.4.11)
+export const getContrastLevel = (ratio: number, kind: ContrastKind): ContrastLevel => {
+  if (kind === 'graphic') return ratio >= 3 ? 'AA' : 'fail'
+  return ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : 'fail'
+}
+
+export interface ContrastResult {
+  pair: ContrastPair
+  foreground: RGB // Graded colors
+  background: RGB
+  original: number // Ratio without the grade
+  ratio: number
+  level: ContrastLevel
+}
+
+const grade = (cube: LUTCube, color: RGB): RGB => sampleLUTCube(cube, color[0], color[1], color[2], 'tetrahedral')
+
+// Run each pair through the LUT and rate the graded contrast
+export const checkContrast = (cube: LUTCube, pairs = STANDARD_CONTRAST_PAIRS): ContrastResult[] => {
+  return pairs.map(pair => {
+    const foreground = STANDARD_COLORS[pair.foreground].color
+    const background = STANDARD_COLORS[pair.background].color
+    const gradedForeground = grade(cube, foreground)
+    const gradedBackground = grade(cube, background)
+    const ratio = contrastRatio(gradedForeground, gradedBackground)
+
+    return {
+      pair,
+      foreground: gradedForeground,
+      background: gradedBackground,
+      original: contrastRatio(foreground, background),
+      ratio,
+      level: getContrastLevel(ratio, pair.kind)
+    }
+  })
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { CURVE_INTERPOLATIONS, evaluateCurve, sampleCurve } from './curveUtils'
+import { createDefaultCurve, createNeutralHueCurve } from './lutUtils'
+
+const sCurve = [
+  { x: 0, y: 0 },
+  { x: 0.25, y: 0.15 },
+  { x: 0.5, y: 0.5 },
+  { x: 0.75, y: 0.85 },
+  { x: 1, y: 1 }
+]
+
+// Rises steeply then flattens, which a smooth cubic overshoots
+const kneeCurve = [
+  { x: 0, y: 0 },
+  { x: 0.2, y: 0.9 },
+  { x: 0.6, y: 0.92 },
+  { x: 1, y: 1 }
+]
+
+const interpolations = CURVE_INTERPOLATIONS.map(option => option.value)
+
+describe('evaluateCurve', () => {
+  it.each(interpolations)('passes through every control point (%s)', (interpolation) => {
+    for (const point of sCurve) {
+      expect(evaluateCurve(point.x, sCurve, interpolation)).toBeCloseTo(point.y, 10)
+    }
+  })
+
+  it.each(interpolations)('leaves the default curve as the identity (%s)', (interpolation) => {
+    for (let x = 0; x <= 1; x += 0.05) {
+      expect(evaluateCurve(x, createDefaultCurve(), interpolation)).toBeCloseTo(x, 10)
+    }
+  })
+
+  it('joins points with straight lines when linear', () => {
+    expect(evaluateCurve(0.125, sCurve, 'linear')).toBeCloseTo(0.075, 10)
+    expect(evaluateCurve(0.625, sCurve, 'linear')).toBeCloseTo(0.675, 10)
+  })
+
+  it('never overshoots or inverts between points when monotone', () => {
+    const samples = sampleCurve(kneeCurve, 'monotone', 200)
+
+    for (let i = 1; i < samples.length; i++) {
+      expect(samples[i].y).toBeGreaterThanOrEqual(samples[i - 1].y - 1e-12)
+    }
+    expect(Math.max(...samples.filter(p => p.x > 0.2 && p.x < 0.6).map(p => p.y))).toBeLessThanOrEqual(0.92)
+  })
+
+  it('can overshoot between points with Catmull-Rom', () => {
+    const samples = sampleCurve(kneeCurve, 'catmull-rom', 200)
+
+    expect(Math.max(...samples.filter(p => p.x > 0.2 && p.x < 0.6).map(p => p.y))).toBeGreaterThan(0.92)
+  })
+
+  it('holds the end values outside the points and clamps to 0-1', () => {
+    const inset = [{ x: 0.2, y: 0.3 }, { x: 0.8, y: 0.6 }]
+
+    expect(evaluateCurve(0, inset, 'monotone')).toBe(0.3)
+    expect(evaluateCurve(1, inset, 'monotone')).toBe(0.6)
+    expect(evaluateCurve(-1, sCurve, 'linear')).toBe(0)
+    expect(evaluateCurve(2, sCurve, 'linear')).toBe(1)
+  })
+
+  it('handles curves with too few points to interpolate', () => {
+    expect(evaluateCurve(0.3, [], 'monotone')).toBe(0.3)
+    expect(evaluateCurve(0.3, [{ x: 0.5, y: 0.7 }], 'monotone')).toBe(0.7)
+  })
+})
+
+describe('evaluateCurve over hue', () => {
+  // Raised around red, which sits at both ends of the hue range
+  const redBoost = [{ x: 0, y: 0.8 }, { x: 1 / 3, y: 0.5 }, { x: 2 / 3, y: 0.5 }]
+
+  it.each(interpolations)('leaves the neutral hue curve flat (%s)', (interpolation) => {
+    for (let x = 0; x <= 1; x += 0.05) {
+      expect(evaluateCurve(x, createNeutralHueCurve(), interpolation, true)).toBeCloseTo(0.5, 10)
+    }
+  })
+
+  it.each(interpolations)('wraps from 360° back to 0° (%s)', (interpolation) => {
+    expect(evaluateCurve(1, redBoost, interpolation, true)).toBeCloseTo(0.8, 10)
+    expect(evaluateCurve(0.95, redBoost, interpolation, true))
+      .toBeCloseTo(evaluateCurve(-0.05, redBoost, interpolation, true), 10)
+    // Past the last point the curve heads back up toward red instead of holding
+    expect(evaluateCurve(0.9, redBoost, interpolation, true)).toBeGreaterThan(0.5)
+  })
+})
+
+describe('sampleCurve', () => {
+  it('samples evenly from 0 to 1 inclusive', () => {
+    const samples = sampleCurve(sCurve, 'linear', 4)
+
+    expect(samples.map(p => p.x)).toEqual([0, 0.25, 0.5, 0.75, 1])
+    expect(samples.map(p => p.y)).toEqual(sCurve.map(p => p.y))
+  })
+})
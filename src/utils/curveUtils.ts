@@ -0,0 +1,165 @@
+import type { Point } from './colorUtils'
+
+// How a curve passes between its control points
+//   monotone:    cubic that never overshoots, so curves can't invert
+//   catmull-rom: smooth cubic through every point, may overshoot
+//   linear:      straight segments
+export type CurveInterpolation = 'monotone' | 'catmull-rom' | 'linear'
+
+export const CURVE_INTERPOLATIONS: { value: CurveInterpolation; label: string }[] = [
+  { value: 'monotone', label: 'Monotone' },
+  { value: 'catmull-rom', label: 'Catmull-Rom' },
+  { value: 'linear', label: 'Linear' }
+]
+
+type CurveEvaluator = (input: number) => number
+
+// Tangents for Catmull-Rom: the slope between each point's neighbours
+const catmullRomTangents = (points: Point[], slopes: number[]): number[] => {
+  const n = points.length
+  return points.map((_, i) => {
+    if (i === 0) return slopes[0]
+    if (i === n - 1) return slopes[n - 2]
+    const dx = points[i + 1].x - points[i - 1].x
+    return dx > 0 ? (points[i + 1].y - points[i - 1].y) / dx : 0
+  })
+}
+
+// Tangents for monotone cubic interpolation (Fritsch-Carlson)
+const monotoneTangents = (slopes: number[]): number[] => {
+  const n = slopes.length + 1
+  const tangents = new Array<number>(n)
+
+  tangents[0] = slopes[0]
+  tangents[n - 1] = slopes[n - 2]
+  for (let i = 1; i < n - 1; i++) {
+    // Flat at local extrema, otherwise average of neighbouring slopes
+    tangents[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2
+  }
+
+  // Limit tangents so no segment overshoots
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      continue
+    }
+    const a = tangents[i] / slopes[i]
+    const b = tangents[i + 1] / slopes[i]
+    const magnitude = a * a + b * b
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude)
+      tangents[i] = scale * a * slopes[i]
+      tangents[i + 1] = scale * b * slopes[i]
+    }
+  }
+
+  return tangents
+}
+
+const createEvaluator = (points: Point[], interpolation: CurveInterpolation): CurveEvaluator => {
+  const n = points.length
+  if (n === 0) return (input) => input
+  if (n === 1) return () => points[0].y
+
+  const slopes = points.slice(0, -1).map((p, i) => {
+    const dx = points[i + 1].x - p.x
+    return dx > 0 ? (points[i + 1].y - p.y) / dx : 0
+  })
+
+  const tangents = interpolation === 'monotone'
+    ? monotoneTangents(slopes)
+    : interpolation === 'catmull-rom'
+      ? catmullRomTangents(points, slopes)
+      : null
+
+  return (input) => {
+    if (input <= points[0].x) return points[0].y
+    if (input >= points[n - 1].x) return points[n - 1].y
+
+    // Find the segment that brackets this input value
+    let i = 0
+    while (i < n - 2 && input > points[i + 1].x) i++
+
+    const p0 = points[i]
+    const p1 = points[i + 1]
+    const dx = p1.x - p0.x
+    if (dx <= 0) return p1.y
+
+    const t = (input - p0.x) / dx
+    if (!tangents) return p0.y + t * (p1.y - p0.y)
+
+    // Cubic Hermite basis
+    const t2 = t * t
+    const t3 = t2 * t
+    return (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * dx * tangents[i] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * dx * tangents[i + 1]
+  }
+}
+
+// Evaluators are cached per points array; curves are replaced, never mutated
+const evaluatorCache = new WeakMap<Point[], Map<CurveInterpolation, CurveEvaluator>>()
+const periodicPointsCache = new WeakMap<Point[], Point[]>()
+
+// For curves over hue, repeat the points one period either side so the
+// curve wraps smoothly from 360° back to 0°
+const getPeriodicPoints = (points: Point[]): Point[] => {
+  let extended = periodicPointsCache.get(points)
+  if (!extended) {
+    extended = [
+      ...points.map(p => ({ x: p.x - 1, y: p.y })),
+      ...points,
+      ...points.map(p => ({ x: p.x + 1, y: p.y }))
+    ]
+    periodicPointsCache.set(points, extended)
+  }
+  return extended
+}
+
+const getEvaluator = (points: Point[], interpolation: CurveInterpolation): CurveEvaluator => {
+  let byInterpolation = evaluatorCache.get(points)
+  if (!byInterpolation) {
+    byInterpolation = new Map()
+    evaluatorCache.set(points, byInterpolation)
+  }
+
+  let evaluator = byInterpolation.get(interpolation)
+  if (!evaluator) {
+    evaluator = createEvaluator(points, interpolation)
+    byInterpolation.set(interpolation, evaluator)
+  }
+  return evaluator
+}
+
+// Evaluate a curve at an input (0-1). Used by both the LUT and the curve
+// editor so what is drawn is exactly what is applied. Periodic curves wrap
+// around instead of clamping at the ends
+export const evaluateCurve = (
+  input: number,
+  points: Point[],
+  interpolation: CurveInterpolation,
+  periodic = false
+): number => {
+  if (periodic && points.length > 0) {
+    const wrapped = input - Math.floor(input)
+    return Math.max(0, Math.min(1, getEvaluator(getPeriodicPoints(points), interpolation)(wrapped)))
+  }
+
+  const clamped = Math.max(0, Math.min(1, input))
+  return Math.max(0, Math.min(1, getEvaluator(points, interpolation)(clamped)))
+}
+
+// Sample a curve at evenly spaced inputs for drawing
+export const sampleCurve = (
+  points: Point[],
+  interpolation: CurveInterpolation,
+  samples = 100,
+  periodic = false
+): Point[] => {
+  return Array.from({ length: samples + 1 }, (_, i) => {
+    const x = i / samples
+    return { x, y: evaluateCurve(x, points, interpolation, periodic) }
+  })
+}
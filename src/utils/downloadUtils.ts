@@ -0,0 +1,16 @@
+// Trigger a browser download for a URL (data URL or object URL)
+export const downloadURL = (href: string, filename: string) => {
+  const link = document.createElement('a')
+  link.href = href
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+// Trigger a browser download for generated text content
+export const downloadText = (text: string, filename: string, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  downloadURL(url, filename)
+  URL.revokeObjectURL(url)
+}
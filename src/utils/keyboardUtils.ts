@@ -0,0 +1,22 @@
+// Arrow-key nudge sizes for 0-1 controls. Alt nudges finely, Shift coarsely
+const NUDGE_STEP = 0.01
+const FINE_NUDGE_STEP = 0.001
+const COARSE_NUDGE_STEP = 0.1
+
+interface NudgeKeyEvent {
+  key: string
+  altKey: boolean
+  shiftKey: boolean
+}
+
+// Movement for an arrow key press, with +y pointing up. Null for other keys
+export const getArrowNudge = (e: NudgeKeyEvent): { dx: number; dy: number } | null => {
+  const step = e.altKey ? FINE_NUDGE_STEP : e.shiftKey ? COARSE_NUDGE_STEP : NUDGE_STEP
+  switch (e.key) {
+    case 'ArrowLeft': return { dx: -step, dy: 0 }
+    case 'ArrowRight': return { dx: step, dy: 0 }
+    case 'ArrowUp': return { dx: 0, dy: step }
+    case 'ArrowDown': return { dx: 0, dy: -step }
+    default: return null
+  }
+}
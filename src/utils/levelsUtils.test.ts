@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyLevels,
+  autoChannelLevels,
+  autoMasterLevels,
+  createDefaultChannelLevels,
+  createDefaultLevels,
+  invertLevels,
+  type Levels
+} from './levelsUtils'
+import { computeHistogram } from './scopes'
+import { createDefaultParameters, gradeColor } from './lutUtils'
+
+const levels = (overrides: Partial<Levels>): Levels => ({ ...createDefaultLevels(), ...overrides })
+
+// A frame of the given 0-255 colors, one pixel each
+const histogramOf = (colors: [number, number, number][]) => computeHistogram({
+  width: colors.length,
+  height: 1,
+  data: Uint8ClampedArray.from(colors.flatMap(color => [...color, 255]))
+} as ImageData)
+
+describe('applyLevels', () => {
+  it('leaves values unchanged with the default levels', () => {
+    for (const value of [0, 0.2, 0.5, 0.9, 1]) {
+      expect(applyLevels(value, createDefaultLevels())).toBeCloseTo(value, 10)
+    }
+  })
+
+  it('stretches the input range to the output range', () => {
+    const stretch = levels({ inputBlack: 0.2, inputWhite: 0.6, outputBlack: 0.1, outputWhite: 0.9 })
+
+    expect(applyLevels(0.2, stretch)).toBeCloseTo(0.1, 10)
+    expect(applyLevels(0.4, stretch)).toBeCloseTo(0.5, 10)
+    expect(applyLevels(0.6, stretch)).toBeCloseTo(0.9, 10)
+  })
+
+  it('brightens midtones with a gamma above 1', () => {
+    expect(applyLevels(0.25, levels({ gamma: 2 }))).toBeCloseTo(0.5, 10)
+    expect(applyLevels(0.25, levels({ gamma: 0.5 }))).toBeCloseTo(0.0625, 10)
+  })
+
+  it('keeps values outside the input range within the output range', () => {
+    const clipped = levels({ inputBlack: 0.1, inputWhite: 0.9, outputBlack: 0.2, outputWhite: 0.8 })
+
+    expect(applyLevels(1, clipped)).toBeCloseTo(0.8, 10)
+    expect(applyLevels(1.5, clipped)).toBeCloseTo(0.8, 10)
+    expect(applyLevels(0, clipped)).toBeCloseTo(0.2, 10)
+    expect(applyLevels(-0.5, clipped)).toBeCloseTo(0.2, 10)
+  })
+
+  it('holds the output limits after an unclamped contrast stage', () => {
+    const params = createDefaultParameters()
+    params.contrast = 2
+    params.levels.master = levels({ inputWhite: 0.9, outputWhite: 0.8, outputBlack: 0.1 })
+
+    const [r, g, b] = gradeColor(1, 0, 0.5, params)
+    expect(r).toBeCloseTo(0.8, 6)
+    expect(g).toBeCloseTo(0.1, 6)
+    expect(b).toBeGreaterThan(0.1)
+    expect(b).toBeLessThan(0.8)
+  })
+})
+
+describe('invertLevels', () => {
+  const curved = levels({ inputBlack: 0.1, inputWhite: 0.7, gamma: 1.6, outputBlack: 0.05, outputWhite: 0.95 })
+
+  it('undoes applyLevels within the input range', () => {
+    for (const value of [0.1, 0.25, 0.4, 0.55, 0.7]) {
+      expect(invertLevels(applyLevels(value, curved), curved)).toBeCloseTo(value, 10)
+    }
+  })
+
+  it('stays within the input range for values past the output range', () => {
+    expect(invertLevels(1, curved)).toBeCloseTo(0.7, 10)
+    expect(invertLevels(0, curved)).toBeCloseTo(0.1, 10)
+  })
+
+  it('handles inverted output ranges', () => {
+    const inverted = levels({ outputBlack: 1, outputWhite: 0 })
+    expect(invertLevels(applyLevels(0.3, inverted), inverted)).toBeCloseTo(0.3, 10)
+  })
+})
+
+describe('auto levels', () => {
+  // A dull, blue-tinted frame: red 40-200, green 50-210, blue 80-240
+  const frame = histogramOf(Array.from({ length: 161 }, (_, i) => [40 + i, 50 + i, 80 + i]))
+
+  it('stretches each channel to its own range', () => {
+    const result = autoChannelLevels(frame, createDefaultChannelLevels())
+
+    expect(result.master).toEqual(createDefaultLevels())
+    expect(result.red.inputBlack).toBeCloseTo(40 / 255, 10)
+    expect(result.red.inputWhite).toBeCloseTo(200 / 255, 10)
+    expect(result.blue.inputBlack).toBeCloseTo(80 / 255, 10)
+    expect(result.blue.inputWhite).toBeCloseTo(240 / 255, 10)
+  })
+
+  it('stretches all channels together for master levels', () => {
+    const result = autoMasterLevels(frame, createDefaultChannelLevels())
+
+    expect(result.master.inputBlack).toBeCloseTo(40 / 255, 10)
+    expect(result.master.inputWhite).toBeCloseTo(240 / 255, 10)
+    expect(result.red).toEqual(createDefaultLevels())
+  })
+
+  it('maps the frame back through the levels that graded it', () => {
+    const current = createDefaultChannelLevels()
+    current.master = levels({ outputBlack: 0.1, outputWhite: 0.9 })
+    const result = autoMasterLevels(frame, current)
+
+    expect(result.master.inputBlack).toBeCloseTo(invertLevels(40 / 255, current.master), 10)
+    expect(result.master.inputWhite).toBeCloseTo(invertLevels(240 / 255, current.master), 10)
+  })
+
+  it('leaves a flat channel alone rather than collapsing its range', () => {
+    const flat = histogramOf(Array.from({ length: 100 }, (_, i) => [128, i * 2, 128]))
+
+    expect(autoChannelLevels(flat, createDefaultChannelLevels()).red).toEqual(createDefaultLevels())
+  })
+})
@@ -0,0 +1,117 @@
+import type { Histogram } from './scopes'
+
+export type LevelsChannel = 'master' | 'red' | 'green' | 'blue'
+
+export const LEVELS_CHANNELS: { value: LevelsChannel; label: string; color: string }[] = [
+  { value: 'master', label: 'RGB', color: '#e5e7eb' },
+  { value: 'red', label: 'Red', color: '#ef4444' },
+  { value: 'green', label: 'Green', color: '#22c55e' },
+  { value: 'blue', label: 'Blue', color: '#3b82f6' }
+]
+
+// Photoshop-style levels: the input range is stretched to the output range,
+// with a gamma bend in between (above 1 brightens midtones)
+export interface Levels {
+  inputBlack: number // 0-1
+  inputWhite: number // 0-1, above inputBlack
+  gamma: number
+  outputBlack: number // 0-1
+  outputWhite: number // 0-1
+}
+
+// Master levels apply to all channels before the per-channel levels
+export type ChannelLevels = Record<LevelsChannel, Levels>
+
+// Smallest gap kept between input black and white
+export const MIN_LEVELS_INPUT_RANGE = 0.01
+
+export const createDefaultLevels = (): Levels => ({
+  inputBlack: 0,
+  inputWhite: 1,
+  gamma: 1,
+  outputBlack: 0,
+  outputWhite: 1
+})
+
+export const createDefaultChannelLevels = (): ChannelLevels => ({
+  master: createDefaultLevels(),
+  red: createDefaultLevels(),
+  green: createDefaultLevels(),
+  blue: createDefaultLevels()
+})
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+// Values outside the input range are clamped to it, so the output never
+// leaves the output range
+export const applyLevels = (value: number, levels: Levels): number => {
+  const range = Math.max(levels.inputWhite - levels.inputBlack, 1e-6)
+  const t = Math.pow(clamp01((value - levels.inputBlack) / range), 1 / levels.gamma)
+  return levels.outputBlack + t * (levels.outputWhite - levels.outputBlack)
+}
+
+// The input that applyLevels maps to a value, within the input range
+export const invertLevels = (value: number, levels: Levels): number => {
+  const outputRange = levels.outputWhite - levels.outputBlack
+  const t = Math.abs(outputRange) < 1e-6 ? 0 : clamp01((value - levels.outputBlack) / outputRange)
+  return levels.inputBlack + Math.pow(t, levels.gamma) * (levels.inputWhite - levels.inputBlack)
+}
+
+// Share of pixels allowed to clip at each end when setting levels automatically
+const AUTO_LEVELS_CLIP = 0.001
+
+// Darkest and brightest values (0-1) of a channel, ignoring outliers
+const channelRange = (bins: Uint32Array, pixels: number): [number, number] => {
+  const limit = pixels * AUTO_LEVELS_CLIP
+  let low = 0
+  let darker = bins[0]
+  while (low < 255 && darker <= limit) darker += bins[++low]
+
+  let high = 255
+  let brighter = bins[255]
+  while (high > 0 && brighter <= limit) brighter += bins[--high]
+
+  return [low / 255, high / 255]
+}
+
+// Map a value seen on the map back to the input of the current levels
+const toLevelsInput = (value: number, current: ChannelLevels, channel: Exclude<LevelsChannel, 'master'>) =>
+  Math.max(0, Math.min(1, invertLevels(invertLevels(value, current[channel]), current.master)))
+
+// Levels that stretch each channel of a frame to the full range, which also
+// neutralizes color casts. The frame shows the current grade, so its ends
+// are mapped back through the current levels; this assumes the stages after
+// Levels leave tones about where they are
+export const autoChannelLevels = (histogram: Histogram, current: ChannelLevels): ChannelLevels => {
+  const levels = createDefaultChannelLevels()
+
+  for (const channel of ['red', 'green', 'blue'] as const) {
+    const [low, high] = channelRange(histogram[channel], histogram.pixels)
+    const inputBlack = toLevelsInput(low, current, channel)
+    const inputWhite = toLevelsInput(high, current, channel)
+    if (inputWhite - inputBlack < MIN_LEVELS_INPUT_RANGE) continue
+
+    levels[channel] = { ...levels[channel], inputBlack, inputWhite }
+  }
+
+  return levels
+}
+
+// Master levels that stretch a frame to the full range without changing the
+// balance between channels
+export const autoMasterLevels = (histogram: Histogram, current: ChannelLevels): ChannelLevels => {
+  const levels = createDefaultChannelLevels()
+  let inputBlack = 1
+  let inputWhite = 0
+
+  for (const channel of ['red', 'green', 'blue'] as const) {
+    const [low, high] = channelRange(histogram[channel], histogram.pixels)
+    inputBlack = Math.min(inputBlack, toLevelsInput(low, current, channel))
+    inputWhite = Math.max(inputWhite, toLevelsInput(high, current, channel))
+  }
+
+  if (inputWhite - inputBlack >= MIN_LEVELS_INPUT_RANGE) {
+    levels.master = { ...levels.master, inputBlack, inputWhite }
+  }
+  return levels
+}
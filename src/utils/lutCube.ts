@@ -0,0 +1,137 @@
+// A 3D LUT cube of output colors (0-1), stored as RGB triplets with red
+// varying fastest, then green, then blue
+export interface LUTCube {
+  size: number
+  data: Float32Array
+  title?: string
+}
+
+// Mapbox only accepts a 32x32x32 LUT, so the editor works at this size and
+// other sizes are only used for exports
+export const MAPBOX_CUBE_SIZE = 32
+
+// Sizes offered for exported cubes
+export const CUBE_SIZES = [16, 32, 64] as const
+export type CubeSize = typeof CUBE_SIZES[number]
+
+// How colors between cube entries are looked up
+//   trilinear:   blend the 8 surrounding entries
+//   tetrahedral: blend the 4 entries of the enclosing tetrahedron, which
+//                keeps grays neutral and is what most grading tools use
+export type LUTInterpolation = 'trilinear' | 'tetrahedral'
+
+export const LUT_INTERPOLATIONS: { value: LUTInterpolation; label: string }[] = [
+  { value: 'trilinear', label: 'Trilinear' },
+  { value: 'tetrahedral', label: 'Tetrahedral' }
+]
+
+// A cube that leaves every color unchanged
+export const createIdentityLUTCube = (size: number = MAPBOX_CUBE_SIZE): LUTCube => {
+  const data = new Float32Array(size * size * size * 3)
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const index = ((b * size + g) * size + r) * 3
+        data[index] = r / (size - 1)
+        data[index + 1] = g / (size - 1)
+        data[index + 2] = b / (size - 1)
+      }
+    }
+  }
+  return { size, data }
+}
+
+// Look up a color (0-1) in a cube, interpolating between entries
+export const sampleLUTCube = (
+  cube: LUTCube,
+  r: number, g: number, b: number,
+  interpolation: LUTInterpolation = 'trilinear'
+): [number, number, number] => {
+  const { size, data } = cube
+  const max = size - 1
+
+  const rPos = Math.max(0, Math.min(1, r)) * max
+  const gPos = Math.max(0, Math.min(1, g)) * max
+  const bPos = Math.max(0, Math.min(1, b)) * max
+
+  const r0 = Math.min(Math.floor(rPos), max - 1)
+  const g0 = Math.min(Math.floor(gPos), max - 1)
+  const b0 = Math.min(Math.floor(bPos), max - 1)
+
+  const rT = rPos - r0
+  const gT = gPos - g0
+  const bT = bPos - b0
+
+  const result: [number, number, number] = [0, 0, 0]
+
+  if (interpolation === 'tetrahedral') {
+    for (let channel = 0; channel < 3; channel++) {
+      const at = (ri: number, gi: number, bi: number) =>
+        data[(((b0 + bi) * size + g0 + gi) * size + r0 + ri) * 3 + channel]
+
+      // Pick the tetrahedron by the order of the fractional offsets
+      let value: number
+      if (rT > gT) {
+        if (gT > bT) {
+          value = (1 - rT) * at(0, 0, 0) + (rT - gT) * at(1, 0, 0) + (gT - bT) * at(1, 1, 0) + bT * at(1, 1, 1)
+        } else if (rT > bT) {
+          value = (1 - rT) * at(0, 0, 0) + (rT - bT) * at(1, 0, 0) + (bT - gT) * at(1, 0, 1) + gT * at(1, 1, 1)
+        } else {
+          value = (1 - bT) * at(0, 0, 0) + (bT - rT) * at(0, 0, 1) + (rT - gT) * at(1, 0, 1) + gT * at(1, 1, 1)
+        }
+      } else if (bT > gT) {
+        value = (1 - bT) * at(0, 0, 0) + (bT - gT) * at(0, 0, 1) + (gT - rT) * at(0, 1, 1) + rT * at(1, 1, 1)
+      } else if (bT > rT) {
+        value = (1 - gT) * at(0, 0, 0) + (gT - bT) * at(0, 1, 0) + (bT - rT) * at(0, 1, 1) + rT * at(1, 1, 1)
+      } else {
+        value = (1 - gT) * at(0, 0, 0) + (gT - rT) * at(0, 1, 0) + (rT - bT) * at(1, 1, 0) + bT * at(1, 1, 1)
+      }
+      result[channel] = value
+    }
+    return result
+  }
+
+  for (let channel = 0; channel < 3; channel++) {
+    const at = (ri: number, gi: number, bi: number) =>
+      data[((bi * size + gi) * size + ri) * 3 + channel]
+
+    // Interpolate along red, then green, then blue
+    const c00 = at(r0, g0, b0) + (at(r0 + 1, g0, b0) - at(r0, g0, b0)) * rT
+    const c10 = at(r0, g0 + 1, b0) + (at(r0 + 1, g0 + 1, b0) - at(r0, g0 + 1, b0)) * rT
+    const c01 = at(r0, g0, b0 + 1) + (at(r0 + 1, g0, b0 + 1) - at(r0, g0, b0 + 1)) * rT
+    const c11 = at(r0, g0 + 1, b0 + 1) + (at(r0 + 1, g0 + 1, b0 + 1) - at(r0, g0 + 1, b0 + 1)) * rT
+
+    const c0 = c00 + (c10 - c00) * gT
+    const c1 = c01 + (c11 - c01) * gT
+
+    result[channel] = c0 + (c1 - c0) * bT
+  }
+
+  return result
+}
+
+// Resample a cube of any size to a new size
+export const resampleLUTCube = (cube: LUTCube, size: number): LUTCube => {
+  if (cube.size === size) return cube
+
+  const data = new Float32Array(size * size * size * 3)
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const index = ((b * size + g) * size + r) * 3
+        const [red, green, blue] = sampleLUTCube(
+          cube,
+          r / (size - 1),
+          g / (size - 1),
+          b / (size - 1)
+        )
+        data[index] = red
+        data[index + 1] = green
+        data[index + 2] = blue
+      }
+    }
+  }
+
+  return { size, data }
+}
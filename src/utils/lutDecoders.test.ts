@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { decodeLUTStrip, parseCubeFile } from './lutDecoders'
+import { encodeLUTToCubeFile, encodeLUTToStrip } from './lutEncoders'
+import { createDefaultParameters, generateLUTCube } from './lutUtils'
+import { MAPBOX_CUBE_SIZE, createIdentityLUTCube, sampleLUTCube } from './lutCube'
+
+const graded = () => generateLUTCube({ ...createDefaultParameters(), contrast: 1.3, saturation: 0.6, hue: 20 })
+
+// A 2x2x2 file whose output is its input, plus whatever lines are given
+const identityCubeFile = (...lines: string[]) => [
+  ...lines,
+  'LUT_3D_SIZE 2',
+  '0 0 0', '1 0 0', '0 1 0', '1 1 0',
+  '0 0 1', '1 0 1', '0 1 1', '1 1 1'
+].join('\n')
+
+const maxDifference = (actual: Float32Array, expected: Float32Array) => {
+  expect(actual.length).toBe(expected.length)
+  return actual.reduce((max, value, i) => Math.max(max, Math.abs(value - expected[i])), 0)
+}
+
+describe('parseCubeFile', () => {
+  it('reads back what encodeLUTToCubeFile writes', () => {
+    const cube = graded()
+    const parsed = parseCubeFile(encodeLUTToCubeFile(cube, 'Graded'))
+
+    expect(parsed.size).toBe(MAPBOX_CUBE_SIZE)
+    expect(parsed.title).toBe('Graded')
+    expect(maxDifference(parsed.data, cube.data)).toBeLessThan(1e-5)
+  })
+
+  it('resamples other sizes to 32', () => {
+    const parsed = parseCubeFile(encodeLUTToCubeFile(generateLUTCube(createDefaultParameters(), 17)))
+
+    expect(parsed.size).toBe(MAPBOX_CUBE_SIZE)
+    expect(maxDifference(parsed.data, createIdentityLUTCube().data)).toBeLessThan(1e-4)
+  })
+
+  it('skips comments and unknown keywords', () => {
+    const parsed = parseCubeFile(identityCubeFile('# Made elsewhere', 'LUT_IN_VIDEO_RANGE', 'CUSTOM_KEY 1 2'))
+
+    expect(maxDifference(parsed.data, createIdentityLUTCube().data)).toBeLessThan(1e-5)
+  })
+
+  it('remaps a DOMAIN_MIN and DOMAIN_MAX onto 0-1', () => {
+    const parsed = parseCubeFile(identityCubeFile('DOMAIN_MIN 0 0 0', 'DOMAIN_MAX 2 2 2'))
+
+    // An input of 1 sits halfway through a 0-2 domain
+    expect(sampleLUTCube(parsed, 1, 1, 1).map(v => Number(v.toFixed(4)))).toEqual([0.5, 0.5, 0.5])
+  })
+
+  it('treats LUT_3D_INPUT_RANGE as the domain of every channel', () => {
+    const parsed = parseCubeFile(identityCubeFile('LUT_3D_INPUT_RANGE 0 2'))
+
+    expect(sampleLUTCube(parsed, 1, 0, 1).map(v => Number(v.toFixed(4)))).toEqual([0.5, 0, 0.5])
+  })
+
+  it('rejects malformed files', () => {
+    expect(() => parseCubeFile(identityCubeFile('DOMAIN_MIN 0 0'))).toThrow('DOMAIN_MIN must be 3 numbers')
+    expect(() => parseCubeFile(identityCubeFile('LUT_3D_INPUT_RANGE 0 x'))).toThrow('must be 2 numbers')
+    expect(() => parseCubeFile('LUT_1D_SIZE 1024')).toThrow('1D LUTs are not supported')
+    expect(() => parseCubeFile('0 0 0\n1 1 1')).toThrow('LUT_3D_SIZE')
+    expect(() => parseCubeFile('LUT_3D_SIZE 2\n0 0 0')).toThrow('Expected 8 entries, found 1')
+    expect(() => parseCubeFile(identityCubeFile('1 1'))).toThrow('Invalid line')
+  })
+})
+
+describe('decodeLUTStrip', () => {
+  it('reads back what encodeLUTToStrip writes, to 8-bit precision', () => {
+    const cube = graded()
+    const strip = encodeLUTToStrip(cube)
+    const decoded = decodeLUTStrip(strip, MAPBOX_CUBE_SIZE * MAPBOX_CUBE_SIZE, MAPBOX_CUBE_SIZE)
+
+    expect(maxDifference(decoded.data, cube.data)).toBeLessThanOrEqual(1 / 255)
+  })
+
+  it('rejects strips that are not size x size wide', () => {
+    expect(() => decodeLUTStrip(new Uint8ClampedArray(4 * 10 * 4), 10, 4)).toThrow('Expected a 16x4 LUT strip')
+  })
+})
@@ -0,0 +1,176 @@
+import { MAPBOX_CUBE_SIZE, resampleLUTCube, sampleLUTCube, type LUTCube } from './lutCube'
+
+// The numbers after a keyword, which must be finite and exactly count long
+const readNumbers = (keyword: string, values: string[], count: number): number[] => {
+  const numbers = values.map(Number)
+  if (numbers.length !== count || numbers.some(n => !Number.isFinite(n))) {
+    throw new Error(`${keyword} must be ${count} numbers`)
+  }
+  return numbers
+}
+
+// Parse an Adobe/Resolve .cube file into a cube resampled to 32x32x32.
+// A non-default DOMAIN_MIN/DOMAIN_MAX (or Resolve's LUT_3D_INPUT_RANGE) is
+// remapped onto our 0-1 input range. Other keywords are skipped
+export const parseCubeFile = (text: string): LUTCube => {
+  let size = 0
+  let title: string | undefined
+  let domainMin = [0, 0, 0]
+  let domainMax = [1, 1, 1]
+  const values: number[] = []
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const [keyword, ...rest] = line.split(/\s+/)
+
+    if (keyword === 'TITLE') {
+      title = rest.join(' ').replace(/^"|"$/g, '')
+      continue
+    }
+    if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported')
+    }
+    if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(rest[0], 10)
+      continue
+    }
+    if (keyword === 'DOMAIN_MIN') {
+      domainMin = readNumbers(keyword, rest, 3)
+      continue
+    }
+    if (keyword === 'DOMAIN_MAX') {
+      domainMax = readNumbers(keyword, rest, 3)
+      continue
+    }
+    if (keyword === 'LUT_3D_INPUT_RANGE') {
+      const [min, max] = readNumbers(keyword, rest, 2)
+      domainMin = [min, min, min]
+      domainMax = [max, max, max]
+      continue
+    }
+    if (/^[A-Za-z_]/.test(keyword)) continue
+
+    const triplet = line.split(/\s+/).map(Number)
+    if (triplet.length !== 3 || triplet.some(n => Number.isNaN(n))) {
+      throw new Error(`Invalid line in .cube file: "${line}"`)
+    }
+    values.push(...triplet)
+  }
+
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error('Missing or invalid LUT_3D_SIZE')
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size ** 3} entries, found ${values.length / 3}`)
+  }
+
+  const source: LUTCube = {
+    size,
+    data: Float32Array.from(values, v => Math.max(0, Math.min(1, v)))
+  }
+
+  const isDefaultDomain = [0, 1, 2].every(c => domainMin[c] === 0 && domainMax[c] === 1)
+  if (isDefaultDomain) {
+    return { ...resampleLUTCube(source, MAPBOX_CUBE_SIZE), title }
+  }
+
+  // Find where each of our 0-1 grid inputs falls inside the file's domain
+  const toDomain = (value: number, channel: number) => {
+    const range = domainMax[channel] - domainMin[channel] || 1
+    return (value - domainMin[channel]) / range
+  }
+
+  const data = new Float32Array(MAPBOX_CUBE_SIZE ** 3 * 3)
+  for (let b = 0; b < MAPBOX_CUBE_SIZE; b++) {
+    for (let g = 0; g < MAPBOX_CUBE_SIZE; g++) {
+      for (let r = 0; r < MAPBOX_CUBE_SIZE; r++) {
+        const index = ((b * MAPBOX_CUBE_SIZE + g) * MAPBOX_CUBE_SIZE + r) * 3
+        const step = MAPBOX_CUBE_SIZE - 1
+        const [red, green, blue] = sampleLUTCube(
+          source,
+          toDomain(r / step, 0),
+          toDomain(g / step, 1),
+          toDomain(b / step, 2)
+        )
+        data[index] = red
+        data[index + 1] = green
+        data[index + 2] = blue
+      }
+    }
+  }
+
+  return { size: MAPBOX_CUBE_SIZE, data, title }
+}
+
+// Decode RGBA pixels of a horizontal strip (size*size wide, size tall)
+// laid out the way encodeLUTToStrip writes it
+export const decodeLUTStrip = (pixels: Uint8ClampedArray, width: number, height: number): LUTCube => {
+  const size = height
+  if (size < 2 || width !== size * size) {
+    throw new Error(`Expected a ${size * size}x${size} LUT strip, got ${width}x${height}`)
+  }
+
+  const data = new Float32Array(size * size * size * 3)
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const index = ((b * size + g) * size + r) * 3
+        const source = (g * width + b * size + r) * 4
+
+        data[index] = pixels[source] / 255
+        data[index + 1] = pixels[source + 1] / 255
+        data[index + 2] = pixels[source + 2] / 255
+      }
+    }
+  }
+
+  return resampleLUTCube({ size, data }, MAPBOX_CUBE_SIZE)
+}
+
+// Load a PNG strip from a URL (data URL or object URL) and decode it
+export const loadLUTFromPNG = (src: string): Promise<LUTCube> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = img.width
+      canvas.height = img.height
+      const ctx = canvas.getContext('2d')
+
+      if (!ctx) {
+        reject(new Error('Could not get LUT context'))
+        return
+      }
+
+      ctx.drawImage(img, 0, 0)
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+
+      try {
+        resolve(decodeLUTStrip(imageData.data, canvas.width, canvas.height))
+      } catch (err) {
+        reject(err)
+      }
+    }
+
+    img.onerror = () => reject(new Error('Failed to load LUT image'))
+    img.src = src
+  })
+}
+
+// Import a LUT from a user-selected .cube or .png file
+export const importLUTFile = async (file: File): Promise<LUTCube> => {
+  if (file.name.toLowerCase().endsWith('.cube')) {
+    const cube = parseCubeFile(await file.text())
+    return { ...cube, title: cube.title || file.name }
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    return { ...(await loadLUTFromPNG(url)), title: file.name }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
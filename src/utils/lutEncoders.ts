@@ -0,0 +1,84 @@
+import { createIdentityLUTCube, type LUTCube } from './lutCube'
+
+// Lay the cube out as the horizontal strip Mapbox expects: one slice per
+// blue value, each slice is size x size with red across and green down
+export const encodeLUTToStrip = (cube: LUTCube): Uint8ClampedArray<ArrayBuffer> => {
+  const { size, data } = cube
+  const width = size * size
+  const pixels = new Uint8ClampedArray(width * size * 4)
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const source = ((b * size + g) * size + r) * 3
+        const x = b * size + r
+        const y = g
+        const index = (y * width + x) * 4
+
+        pixels[index] = data[source] * 255
+        pixels[index + 1] = data[source + 1] * 255
+        pixels[index + 2] = data[source + 2] * 255
+        pixels[index + 3] = 255 // Alpha
+      }
+    }
+  }
+
+  return pixels
+}
+
+// Encode the cube as a PNG strip and return it as a base64 data URL
+export const encodeLUTToPNG = (cube: LUTCube): string => {
+  const canvas = document.createElement('canvas')
+  canvas.width = cube.size * cube.size
+  canvas.height = cube.size
+  const ctx = canvas.getContext('2d')
+
+  if (!ctx) return ''
+
+  const imageData = new ImageData(encodeLUTToStrip(cube), canvas.width, canvas.height)
+  ctx.putImageData(imageData, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+// The identity LUT as a PNG, showing the map exactly as the style draws it
+let identityPNG: string | null = null
+export const getIdentityLUTPNG = (): string => {
+  identityPNG ??= encodeLUTToPNG(createIdentityLUTCube())
+  return identityPNG
+}
+
+// Same as encodeLUTToPNG but without the DOM, for use inside a worker
+export const encodeLUTToPNGOffscreen = async (cube: LUTCube): Promise<string> => {
+  const canvas = new OffscreenCanvas(cube.size * cube.size, cube.size)
+  const ctx = canvas.getContext('2d')
+
+  if (!ctx) return ''
+
+  ctx.putImageData(new ImageData(encodeLUTToStrip(cube), canvas.width, canvas.height), 0, 0)
+  const blob = await canvas.convertToBlob({ type: 'image/png' })
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Encode the cube as an Adobe/Resolve .cube 3D LUT. The format lists one
+// output color per line with red varying fastest, which matches our layout
+export const encodeLUTToCubeFile = (cube: LUTCube, title = 'Mapbox Theme'): string => {
+  const { size, data } = cube
+  const lines = [
+    `TITLE "${title.replace(/"/g, '')}"`,
+    `LUT_3D_SIZE ${size}`,
+    'DOMAIN_MIN 0.0 0.0 0.0',
+    'DOMAIN_MAX 1.0 1.0 1.0'
+  ]
+
+  for (let i = 0; i < data.length; i += 3) {
+    lines.push(`${data[i].toFixed(6)} ${data[i + 1].toFixed(6)} ${data[i + 2].toFixed(6)}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { createDefaultParameters, generateLUTCube, gradeColor } from './lutUtils'
+import { createIdentityLUTCube } from './lutCube'
+
+describe('generateLUTCube', () => {
+  it('leaves colors unchanged with the default parameters', () => {
+    const cube = generateLUTCube(createDefaultParameters(), 9)
+    const identity = createIdentityLUTCube(9)
+
+    expect(cube.size).toBe(9)
+    for (let i = 0; i < identity.data.length; i++) {
+      expect(cube.data[i]).toBeCloseTo(identity.data[i], 4)
+    }
+  })
+
+  it('lays entries out with red varying fastest', () => {
+    const params = { ...createDefaultParameters(), exposure: 0.5 }
+    const cube = generateLUTCube(params, 5)
+    const index = ((3 * 5 + 1) * 5 + 2) * 3
+
+    expect(Array.from(cube.data.subarray(index, index + 3)))
+      .toEqual(gradeColor(2 / 4, 1 / 4, 3 / 4, params).map(v => Math.fround(v)))
+  })
+
+  it('skips disabled stages', () => {
+    const params = { ...createDefaultParameters(), exposure: 1 }
+    params.pipeline = params.pipeline.map(stage => stage.id === 'exposure' ? { ...stage, enabled: false } : stage)
+
+    expect(gradeColor(0.25, 0.5, 0.75, params)).toEqual(gradeColor(0.25, 0.5, 0.75, createDefaultParameters()))
+  })
+
+  it('clamps the output to 0-1', () => {
+    const params = { ...createDefaultParameters(), exposure: 2 }
+    const cube = generateLUTCube(params, 5)
+
+    expect(cube.data.every(v => v >= 0 && v <= 1)).toBe(true)
+    expect(gradeColor(1, 1, 1, params)).toEqual([1, 1, 1])
+  })
+})
@@ -0,0 +1,75 @@
+import type { Map as MapboxMap } from 'mapbox-gl'
+
+// The style every map in the editor shows; themes only change its LUT
+export const MAP_STYLE_URL = 'mapbox://styles/mapbox/standard'
+
+// Without a token the live map can't load at all
+export const HAS_ACCESS_TOKEN = Boolean(import.meta.env.VITE_MAPBOX_ACCESS_TOKEN)
+
+export type LightPreset = 'dawn' | 'day' | 'dusk' | 'night'
+
+// Standard style basemap config saved alongside the LUT. Keys match the
+// style's config property names
+export interface StyleConfig {
+  lightPreset: LightPreset
+  font: string
+  showPointOfInterestLabels: boolean
+  showTransitLabels: boolean
+  showPlaceLabels: boolean
+  showRoadLabels: boolean
+  show3dObjects: boolean
+}
+
+export const LIGHT_PRESETS: { value: LightPreset; label: string }[] = [
+  { value: 'dawn', label: 'Dawn' },
+  { value: 'day', label: 'Day' },
+  { value: 'dusk', label: 'Dusk' },
+  { value: 'night', label: 'Night' }
+]
+
+// Fonts the Standard style accepts for its labels
+export const STYLE_FONTS = [
+  'DIN Pro',
+  'Alegreya',
+  'Asap',
+  'Barlow',
+  'EB Garamond',
+  'Inter',
+  'Lato',
+  'Montserrat',
+  'Open Sans',
+  'Poppins',
+  'Raleway',
+  'Roboto',
+  'Rubik',
+  'Source Sans Pro',
+  'Ubuntu'
+]
+
+// Boolean config properties, with the labels shown in the panel
+export const STYLE_TOGGLES: { key: keyof StyleConfig & `show${string}`; label: string }[] = [
+  { key: 'showPointOfInterestLabels', label: 'Point of interest labels' },
+  { key: 'showTransitLabels', label: 'Transit labels' },
+  { key: 'showPlaceLabels', label: 'Place labels' },
+  { key: 'showRoadLabels', label: 'Road labels' },
+  { key: 'show3dObjects', label: '3D objects' }
+]
+
+// The Standard style's own defaults
+export const createDefaultStyleConfig = (): StyleConfig => ({
+  lightPreset: 'day',
+  font: 'DIN Pro',
+  showPointOfInterestLabels: true,
+  showTransitLabels: true,
+  showPlaceLabels: true,
+  showRoadLabels: true,
+  show3dObjects: true
+})
+
+// Set the config properties that differ from what the map already has
+export const applyStyleConfig = (map: MapboxMap, config: StyleConfig, previous: StyleConfig | null) => {
+  for (const key of Object.keys(config) as (keyof StyleConfig)[]) {
+    if (previous && previous[key] === config[key]) continue
+    map.setConfigProperty('basemap', key, config[key])
+  }
+}
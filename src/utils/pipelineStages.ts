@@ -0,0 +1,344 @@
+import { rgbToHsv, hsvToRgb } from './colorUtils'
+import { evaluateCurve } from './curveUtils'
+import { applyLevels } from './levelsUtils'
+import { sampleLUTCube } from './lutCube'
+import { wheelToRGBShift, toneWeights } from './wheelUtils'
+import type { ColorCorrection, LUTParameters } from './lutUtils'
+
+export type PipelineStageId =
+  | 'baseLUT'
+  | 'exposure'
+  | 'brightness'
+  | 'contrast'
+  | 'levels'
+  | 'hsv'
+  | 'crossProcess'
+  | 'colorWheels'
+  | 'curves'
+  | 'hueCurves'
+  | 'colorCorrections'
+
+// A stage's place in the pipeline, as stored in LUTParameters
+export interface PipelineStageConfig {
+  id: PipelineStageId
+  enabled: boolean
+}
+
+// One adjustment in the grading pipeline. Stages transform a color (0-1,
+// possibly out of range) in place; the pipeline clamps once at the end, so
+// stages that need an in-range input clamp it themselves
+export interface PipelineStage {
+  id: PipelineStageId
+  label: string
+  clampsInput?: boolean // Clamps its input to 0-1, losing anything outside
+  apply: (color: [number, number, number], params: LUTParameters) => void
+}
+
+const clampColor = (color: [number, number, number]) => {
+  color[0] = Math.max(0, Math.min(1, color[0]))
+  color[1] = Math.max(0, Math.min(1, color[1]))
+  color[2] = Math.max(0, Math.min(1, color[2]))
+}
+
+// Check if a color matches a target color within tolerance using HSV distance
+const matchesColorRange = (
+  r: number, g: number, b: number,
+  targetR: number, targetG: number, targetB: number,
+  tolerance: number
+): number => {
+  // Convert both to HSV for perceptual matching
+  const [h, s, v] = rgbToHsv(r, g, b)
+  const [targetH, targetS, targetV] = rgbToHsv(targetR, targetG, targetB)
+  
+  // Calculate distance in HSV space
+  // Hue is circular, so we need to handle wraparound
+  let hueDiff = Math.abs(h - targetH)
+  if (hueDiff > 0.5) hueDiff = 1 - hueDiff
+  
+  const satDiff = Math.abs(s - targetS)
+  const valDiff = Math.abs(v - targetV)
+  
+  // Weighted distance (hue is most important for color identity)
+  const distance = Math.sqrt(
+    hueDiff * hueDiff * 2 +
+    satDiff * satDiff +
+    valDiff * valDiff
+  ) / Math.sqrt(4) // Normalize to 0-1
+  
+  // Return strength (1 = perfect match, 0 = outside tolerance)
+  if (distance > tolerance) return 0
+  
+  // Smooth falloff at the edges
+  return Math.cos((distance / tolerance) * Math.PI * 0.5)
+}
+
+// Apply color corrections to RGB values
+const applyColorCorrections = (
+  r: number, g: number, b: number,
+  corrections: ColorCorrection[]
+): [number, number, number] => {
+  let red = r
+  let green = g
+  let blue = b
+  
+  for (const correction of corrections) {
+    if (!correction.enabled) continue
+    
+    const strength = matchesColorRange(
+      red, green, blue,
+      correction.targetColor.r, correction.targetColor.g, correction.targetColor.b,
+      correction.tolerance
+    )
+    
+    if (strength > 0) {
+      // Convert to HSV for adjustments
+      let [h, s, v] = rgbToHsv(red, green, blue)
+      
+      // Apply hue shift
+      if (correction.adjustments.hueShift !== 0) {
+        h = (h + correction.adjustments.hueShift / 360) % 1
+        if (h < 0) h += 1
+      }
+      
+      // Apply saturation shift
+      if (correction.adjustments.saturationShift !== 0) {
+        s = Math.max(0, Math.min(1, s + correction.adjustments.saturationShift * strength))
+      }
+      
+      // Apply value shift
+      if (correction.adjustments.valueShift !== 0) {
+        v = Math.max(0, Math.min(1, v + correction.adjustments.valueShift * strength))
+      }
+      
+      // Convert back to RGB
+      ;[red, green, blue] = hsvToRgb(h, s, v)
+      
+      // Apply brightness shift
+      if (correction.adjustments.brightnessShift !== 0) {
+        const brightnessMult = 1 + correction.adjustments.brightnessShift * strength
+        red = Math.max(0, Math.min(1, red * brightnessMult))
+        green = Math.max(0, Math.min(1, green * brightnessMult))
+        blue = Math.max(0, Math.min(1, blue * brightnessMult))
+      }
+    }
+  }
+  
+  return [red, green, blue]
+}
+
+const baseLUTStage: PipelineStage = {
+  id: 'baseLUT',
+  label: 'Base LUT',
+  clampsInput: true, // Sampling clamps to the cube's edges
+  apply: (color, { baseLUT }) => {
+    if (!baseLUT) return
+    const [red, green, blue] = sampleLUTCube(baseLUT, color[0], color[1], color[2])
+    color[0] = red
+    color[1] = green
+    color[2] = blue
+  }
+}
+
+const exposureStage: PipelineStage = {
+  id: 'exposure',
+  label: 'Exposure',
+  apply: (color, { exposure }) => {
+    // Apply exposure (power curve)
+    const exposureFactor = Math.pow(2, exposure)
+    color[0] *= exposureFactor
+    color[1] *= exposureFactor
+    color[2] *= exposureFactor
+  }
+}
+
+const brightnessStage: PipelineStage = {
+  id: 'brightness',
+  label: 'Brightness',
+  apply: (color, { brightness }) => {
+    // Apply brightness (multiplicative)
+    color[0] *= brightness
+    color[1] *= brightness
+    color[2] *= brightness
+  }
+}
+
+const contrastStage: PipelineStage = {
+  id: 'contrast',
+  label: 'Contrast',
+  apply: (color, { contrast }) => {
+    // Apply contrast (around midpoint)
+    color[0] = (color[0] - 0.5) * contrast + 0.5
+    color[1] = (color[1] - 0.5) * contrast + 0.5
+    color[2] = (color[2] - 0.5) * contrast + 0.5
+  }
+}
+
+const levelsStage: PipelineStage = {
+  id: 'levels',
+  label: 'Levels',
+  clampsInput: true, // Clamps to the input range, which lies within 0-1
+  apply: (color, { levels }) => {
+    // Master first, then each channel's own levels
+    color[0] = applyLevels(applyLevels(color[0], levels.master), levels.red)
+    color[1] = applyLevels(applyLevels(color[1], levels.master), levels.green)
+    color[2] = applyLevels(applyLevels(color[2], levels.master), levels.blue)
+  }
+}
+
+const hsvStage: PipelineStage = {
+  id: 'hsv',
+  label: 'Hue / Saturation / Value',
+  clampsInput: true,
+  apply: (color, { hue, saturation, value, vibrancy }) => {
+    // Clamp before HSV operations
+    clampColor(color)
+
+    // Convert to HSV for hue/saturation/value adjustments
+    let [hsvH, hsvS, hsvV] = rgbToHsv(color[0], color[1], color[2])
+
+    // Apply hue shift (hue is in degrees -180 to 180)
+    hsvH = (hsvH + hue / 360) % 1
+    if (hsvH < 0) hsvH += 1
+
+    // Apply saturation
+    hsvS = hsvS * saturation
+
+    // Apply vibrancy (boost saturation of less saturated colors)
+    if (vibrancy !== 0) {
+      const vibrancyBoost = (1 - hsvS) * vibrancy
+      hsvS = hsvS + vibrancyBoost
+    }
+
+    // Apply value
+    hsvV = hsvV * value
+
+    // Clamp HSV values
+    hsvS = Math.max(0, Math.min(1, hsvS))
+    hsvV = Math.max(0, Math.min(1, hsvV))
+
+    // Convert back to RGB
+    ;[color[0], color[1], color[2]] = hsvToRgb(hsvH, hsvS, hsvV)
+  }
+}
+
+const crossProcessStage: PipelineStage = {
+  id: 'crossProcess',
+  label: 'Cross Process',
+  apply: (color, { crossProcess }) => {
+    if (crossProcess === 0) return
+
+    // Shift colors in a film-like way: cyan/green into shadows,
+    // yellow/red into highlights
+    const luminance = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2]
+    color[0] += crossProcess * (luminance - 0.5) * 0.3
+    color[1] += crossProcess * (0.3 - luminance * 0.2)
+    color[2] += crossProcess * (0.5 - luminance) * 0.3
+  }
+}
+
+const colorWheelsStage: PipelineStage = {
+  id: 'colorWheels',
+  label: 'Color Wheels',
+  apply: (color, params) => {
+    const lift = wheelToRGBShift(params.lift, params.liftLuminance, params.liftStrength)
+    const gamma = wheelToRGBShift(params.gamma, params.gammaLuminance, params.gammaStrength)
+    const gain = wheelToRGBShift(params.gain, params.gainLuminance, params.gainStrength)
+    const offset = wheelToRGBShift(params.offset, params.offsetLuminance, params.offsetStrength)
+
+    // Blend lift into shadows, gamma into midtones and gain into highlights;
+    // offset shifts all tones evenly
+    const luminance = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2]
+    const [liftWeight, gammaWeight, gainWeight] = toneWeights(luminance, params.toneRanges)
+
+    for (let c = 0; c < 3; c++) {
+      color[c] += lift[c] * liftWeight + gamma[c] * gammaWeight + gain[c] * gainWeight + offset[c]
+    }
+  }
+}
+
+const curvesStage: PipelineStage = {
+  id: 'curves',
+  label: 'RGB Curves',
+  clampsInput: true,
+  apply: (color, { masterCurve, redCurve, greenCurve, blueCurve, curveInterpolation }) => {
+    // Clamp before curve application
+    clampColor(color)
+
+    // Apply the master curve to every channel, then the per-channel curves
+    color[0] = evaluateCurve(evaluateCurve(color[0], masterCurve, curveInterpolation), redCurve, curveInterpolation)
+    color[1] = evaluateCurve(evaluateCurve(color[1], masterCurve, curveInterpolation), greenCurve, curveInterpolation)
+    color[2] = evaluateCurve(evaluateCurve(color[2], masterCurve, curveInterpolation), blueCurve, curveInterpolation)
+  }
+}
+
+const hueCurvesStage: PipelineStage = {
+  id: 'hueCurves',
+  label: 'Hue & Luma Curves',
+  clampsInput: true,
+  apply: (color, { hueVsHueCurve, hueVsSatCurve, hueVsLumCurve, lumVsSatCurve, curveInterpolation }) => {
+    clampColor(color)
+
+    // Every lookup uses the hue, saturation and luma from before these
+    // curves so they don't feed into each other
+    let [curveH, curveS, curveV] = rgbToHsv(color[0], color[1], color[2])
+    const sourceHue = curveH
+    const sourceSaturation = curveS
+    const sourceLuma = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2]
+
+    // Hue vs Hue: shift by up to half a turn either way
+    curveH += evaluateCurve(sourceHue, hueVsHueCurve, curveInterpolation, true) - 0.5
+    curveH -= Math.floor(curveH)
+
+    // Hue vs Sat and Luma vs Sat: scale saturation from 0x to 2x
+    curveS *= evaluateCurve(sourceHue, hueVsSatCurve, curveInterpolation, true) * 2
+    curveS *= evaluateCurve(sourceLuma, lumVsSatCurve, curveInterpolation) * 2
+
+    // Hue vs Lum: scale value from 0x to 2x, fading out for grays whose hue
+    // is meaningless
+    curveV *= 1 + (evaluateCurve(sourceHue, hueVsLumCurve, curveInterpolation, true) - 0.5) * 2 * sourceSaturation
+
+    ;[color[0], color[1], color[2]] = hsvToRgb(curveH, Math.max(0, Math.min(1, curveS)), Math.max(0, Math.min(1, curveV)))
+  }
+}
+
+const colorCorrectionsStage: PipelineStage = {
+  id: 'colorCorrections',
+  label: 'Color Corrections',
+  apply: (color, { colorCorrections }) => {
+    if (colorCorrections.length === 0) return
+    ;[color[0], color[1], color[2]] = applyColorCorrections(color[0], color[1], color[2], colorCorrections)
+  }
+}
+
+export const PIPELINE_STAGES: Record<PipelineStageId, PipelineStage> = {
+  baseLUT: baseLUTStage,
+  exposure: exposureStage,
+  brightness: brightnessStage,
+  contrast: contrastStage,
+  levels: levelsStage,
+  hsv: hsvStage,
+  crossProcess: crossProcessStage,
+  colorWheels: colorWheelsStage,
+  curves: curvesStage,
+  hueCurves: hueCurvesStage,
+  colorCorrections: colorCorrectionsStage
+}
+
+// The order stages ran in before the pipeline became reorderable, with
+// stages added since slotted in where they fit
+export const DEFAULT_PIPELINE_ORDER: PipelineStageId[] = [
+  'baseLUT',
+  'exposure',
+  'brightness',
+  'contrast',
+  'levels',
+  'hsv',
+  'crossProcess',
+  'colorWheels',
+  'curves',
+  'hueCurves',
+  'colorCorrections'
+]
+
+export const createDefaultPipeline = (): PipelineStageConfig[] =>
+  DEFAULT_PIPELINE_ORDER.map(id => ({ id, enabled: true }))
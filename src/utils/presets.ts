@@ -0,0 +1,107 @@
+import { createDefaultParameters, type LUTParameters } from './lutUtils'
+import { serializeTheme, parseThemeDocument } from './themeDocument'
+
+export interface Preset {
+  id: string
+  name: string
+  builtIn: boolean
+  parameters: LUTParameters
+}
+
+// localStorage key for user presets, stored as theme documents
+const STORAGE_KEY = 'lut-editor:presets'
+
+const builtIn = (id: string, name: string, overrides: Partial<LUTParameters>): Preset => ({
+  id: `builtin-${id}`,
+  name,
+  builtIn: true,
+  parameters: { ...createDefaultParameters(), ...overrides }
+})
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  builtIn('night', 'Night', {
+    exposure: -1,
+    contrast: 1.1,
+    saturation: 0.7,
+    lift: { x: -0.45, y: -0.78 },
+    liftLuminance: -0.386,
+    gain: { x: -0.3, y: -0.218 },
+    gainLuminance: -0.126
+  }),
+  builtIn('desaturated', 'Desaturated Basemap', {
+    brightness: 1.05,
+    contrast: 0.9,
+    saturation: 0.3
+  }),
+  builtIn('sepia', 'Sepia', {
+    saturation: 0.2,
+    redCurve: [{ x: 0, y: 0.08 }, { x: 0.5, y: 0.6 }, { x: 1, y: 1 }],
+    greenCurve: [{ x: 0, y: 0.04 }, { x: 0.5, y: 0.5 }, { x: 1, y: 0.95 }],
+    blueCurve: [{ x: 0, y: 0 }, { x: 0.5, y: 0.38 }, { x: 1, y: 0.78 }]
+  }),
+  builtIn('high-contrast', 'High Contrast', {
+    contrast: 1.6,
+    saturation: 1.3,
+    vibrancy: 0.3
+  }),
+  builtIn('warm', 'Warm Afternoon', {
+    exposure: 0.1,
+    gamma: { x: 0.396, y: 0.367 },
+    gammaLuminance: 0.203,
+    gain: { x: 0.297, y: 0.276 },
+    gainLuminance: 0.152
+  })
+]
+
+const toPreset = (id: string, doc: unknown): Preset => {
+  const { name, parameters } = parseThemeDocument(doc)
+  return { id, name, builtIn: false, parameters }
+}
+
+// Read user presets from localStorage, skipping any that fail to parse
+export const loadUserPresets = (): Preset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+
+    return stored.flatMap((entry) => {
+      try {
+        return [toPreset(String(entry.id), entry.document)]
+      } catch (err) {
+        console.error('Skipping invalid preset:', err)
+        return []
+      }
+    })
+  } catch (err) {
+    console.error('Failed to read presets:', err)
+    return []
+  }
+}
+
+export const saveUserPresets = (presets: Preset[]) => {
+  const stored = presets.map(preset => ({
+    id: preset.id,
+    document: serializeTheme(preset.parameters, preset.name)
+  }))
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+}
+
+// Export presets as a JSON file containing a list of theme documents
+export const exportPresets = (presets: Preset[]): string => {
+  return JSON.stringify({
+    presets: presets.map(preset => serializeTheme(preset.parameters, preset.name))
+  }, null, 2)
+}
+
+// Parse a presets file. A single theme document is accepted as one preset
+export const parsePresetFile = (input: unknown): Preset[] => {
+  const documents = typeof input === 'object' && input !== null && 'presets' in input
+    ? input.presets
+    : [input]
+
+  if (!Array.isArray(documents)) {
+    throw new Error('"presets" must be a list of theme documents')
+  }
+
+  return documents.map((doc, index) => toPreset(`${Date.now()}-${index}`, doc))
+}
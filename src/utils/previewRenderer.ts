@@ -0,0 +1,434 @@
+import { evaluateCurve } from './curveUtils'
+import { DEFAULT_PIPELINE_ORDER } from './pipelineStages'
+import { wheelToRGBShift } from './wheelUtils'
+import type { ChannelLevels, Levels } from './levelsUtils'
+import type { LUTParameters } from './lutUtils'
+import type { LUTCube } from './lutCube'
+
+// Draws an ungraded image through a shader that applies the grading
+// parameters directly, mirroring the stages in pipelineStages.ts. Used for
+// live preview while dragging, when generating and uploading a LUT for
+// every change would be too slow
+
+// Color corrections beyond this are left out of the preview (but not the LUT)
+const MAX_PREVIEW_CORRECTIONS = 16
+
+// Curves are sampled into rows of a float texture, in this order
+const CURVE_SAMPLES = 256
+const CURVE_ROWS = [
+  'masterCurve',
+  'redCurve',
+  'greenCurve',
+  'blueCurve',
+  'hueVsHueCurve',
+  'hueVsSatCurve',
+  'hueVsLumCurve',
+  'lumVsSatCurve'
+] as const
+const PERIODIC_CURVES = new Set<string>(['hueVsHueCurve', 'hueVsSatCurve', 'hueVsLumCurve'])
+
+const VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+void main() {
+  // One triangle covering the viewport
+  vec2 position = vec2(gl_VertexID == 1 ? 3.0 : -1.0, gl_VertexID == 2 ? 3.0 : -1.0);
+  v_uv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler2D;
+precision highp sampler3D;
+
+${DEFAULT_PIPELINE_ORDER.map((id, i) => `const int STAGE_${id.toUpperCase()} = ${i};`).join('\n')}
+const int MAX_STAGES = ${DEFAULT_PIPELINE_ORDER.length};
+const int MAX_CORRECTIONS = ${MAX_PREVIEW_CORRECTIONS};
+
+uniform sampler2D u_image;
+uniform sampler2D u_curves;
+uniform sampler3D u_baseLUT;
+uniform bool u_hasBaseLUT;
+uniform float u_baseLUTSize;
+uniform int u_stages[MAX_STAGES];
+uniform int u_stageCount;
+uniform float u_exposure;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_hue;
+uniform float u_saturation;
+uniform float u_value;
+uniform float u_vibrancy;
+uniform float u_crossProcess;
+uniform vec3 u_levels[10]; // Master then per channel: input black, input white, gamma, output black, output white
+uniform vec3 u_lift;
+uniform vec3 u_gamma;
+uniform vec3 u_gain;
+uniform vec3 u_offset;
+uniform vec4 u_toneRanges; // shadowsEnd, midtonesStart, midtonesEnd, highlightsStart
+uniform int u_correctionCount;
+uniform vec3 u_correctionTargets[MAX_CORRECTIONS];
+uniform float u_correctionTolerances[MAX_CORRECTIONS];
+uniform vec4 u_correctionAdjustments[MAX_CORRECTIONS]; // hue, saturation, value, brightness
+uniform bool u_simulateColorVision;
+uniform mat3 u_colorVision; // Applied to linear RGB after grading
+
+in vec2 v_uv;
+out vec4 outColor;
+
+const float PI = 3.14159265358979;
+
+float luma(vec3 c) {
+  return 0.299 * c.r + 0.587 * c.g + 0.114 * c.b;
+}
+
+vec3 rgbToHsv(vec3 c) {
+  float maxC = max(c.r, max(c.g, c.b));
+  float minC = min(c.r, min(c.g, c.b));
+  float delta = maxC - minC;
+  float h = 0.0;
+  float s = maxC == 0.0 ? 0.0 : delta / maxC;
+  if (delta != 0.0) {
+    if (maxC == c.r) {
+      h = ((c.g - c.b) / delta + (c.g < c.b ? 6.0 : 0.0)) / 6.0;
+    } else if (maxC == c.g) {
+      h = ((c.b - c.r) / delta + 2.0) / 6.0;
+    } else {
+      h = ((c.r - c.g) / delta + 4.0) / 6.0;
+    }
+  }
+  return vec3(h, s, maxC);
+}
+
+vec3 hsvToRgb(vec3 hsv) {
+  float h = hsv.x;
+  float s = hsv.y;
+  float v = hsv.z;
+  float i = floor(h * 6.0);
+  float f = h * 6.0 - i;
+  float p = v * (1.0 - s);
+  float q = v * (1.0 - f * s);
+  float t = v * (1.0 - (1.0 - f) * s);
+  int sector = int(mod(i, 6.0));
+  if (sector == 0) return vec3(v, t, p);
+  if (sector == 1) return vec3(q, v, p);
+  if (sector == 2) return vec3(p, v, t);
+  if (sector == 3) return vec3(p, q, v);
+  if (sector == 4) return vec3(t, p, v);
+  return vec3(v, p, q);
+}
+
+float curve(int row, float x) {
+  float position = clamp(x, 0.0, 1.0) * ${(CURVE_SAMPLES - 1).toFixed(1)};
+  int i0 = int(floor(position));
+  int i1 = min(i0 + 1, ${CURVE_SAMPLES - 1});
+  float a = texelFetch(u_curves, ivec2(i0, row), 0).r;
+  float b = texelFetch(u_curves, ivec2(i1, row), 0).r;
+  return mix(a, b, position - float(i0));
+}
+
+vec3 applyBaseLUT(vec3 c) {
+  if (!u_hasBaseLUT) return c;
+  vec3 coord = (clamp(c, 0.0, 1.0) * (u_baseLUTSize - 1.0) + 0.5) / u_baseLUTSize;
+  return texture(u_baseLUT, coord).rgb;
+}
+
+vec3 levels(vec3 c, int i) {
+  vec3 t = clamp((c - u_levels[i]) / max(u_levels[i + 1] - u_levels[i], vec3(1e-6)), 0.0, 1.0);
+  t = pow(t, 1.0 / u_levels[i + 2]);
+  return u_levels[i + 3] + t * (u_levels[i + 4] - u_levels[i + 3]);
+}
+
+vec3 applyLevels(vec3 c) {
+  return levels(levels(c, 0), 5);
+}
+
+vec3 applyHsv(vec3 c) {
+  vec3 hsv = rgbToHsv(clamp(c, 0.0, 1.0));
+  hsv.x = mod(hsv.x + u_hue / 360.0, 1.0);
+  hsv.y *= u_saturation;
+  hsv.y += (1.0 - hsv.y) * u_vibrancy;
+  hsv.z *= u_value;
+  return hsvToRgb(vec3(hsv.x, clamp(hsv.yz, 0.0, 1.0)));
+}
+
+vec3 applyCrossProcess(vec3 c) {
+  float l = luma(c);
+  return c + u_crossProcess * vec3((l - 0.5) * 0.3, 0.3 - l * 0.2, (0.5 - l) * 0.3);
+}
+
+vec3 applyColorWheels(vec3 c) {
+  float l = clamp(luma(c), 0.0, 1.0);
+  float shadows = max(0.0, 1.0 - l / max(u_toneRanges.x, 1e-6));
+  float midtoneT = u_toneRanges.z > u_toneRanges.y ? (l - u_toneRanges.y) / (u_toneRanges.z - u_toneRanges.y) : -1.0;
+  float midtones = midtoneT > 0.0 && midtoneT < 1.0 ? sin(midtoneT * PI) : 0.0;
+  float highlights = max(0.0, (l - u_toneRanges.w) / max(1.0 - u_toneRanges.w, 1e-6));
+  return c + u_lift * shadows * shadows + u_gamma * midtones + u_gain * highlights * highlights + u_offset;
+}
+
+vec3 applyCurves(vec3 c) {
+  c = clamp(c, 0.0, 1.0);
+  return vec3(
+    curve(1, curve(0, c.r)),
+    curve(2, curve(0, c.g)),
+    curve(3, curve(0, c.b))
+  );
+}
+
+vec3 applyHueCurves(vec3 c) {
+  c = clamp(c, 0.0, 1.0);
+  vec3 hsv = rgbToHsv(c);
+  float sourceHue = hsv.x;
+  float sourceSaturation = hsv.y;
+  float sourceLuma = luma(c);
+
+  hsv.x += curve(4, sourceHue) - 0.5;
+  hsv.x -= floor(hsv.x);
+  hsv.y *= curve(5, sourceHue) * 2.0;
+  hsv.y *= curve(7, sourceLuma) * 2.0;
+  hsv.z *= 1.0 + (curve(6, sourceHue) - 0.5) * 2.0 * sourceSaturation;
+  return hsvToRgb(vec3(hsv.x, clamp(hsv.yz, 0.0, 1.0)));
+}
+
+float matchStrength(vec3 c, vec3 target, float tolerance) {
+  vec3 hsv = rgbToHsv(c);
+  vec3 targetHsv = rgbToHsv(target);
+  float hueDiff = abs(hsv.x - targetHsv.x);
+  if (hueDiff > 0.5) hueDiff = 1.0 - hueDiff;
+  vec2 svDiff = abs(hsv.yz - targetHsv.yz);
+  float dist = sqrt(hueDiff * hueDiff * 2.0 + dot(svDiff, svDiff)) / 2.0;
+  if (dist > tolerance) return 0.0;
+  return cos((dist / tolerance) * PI * 0.5);
+}
+
+vec3 applyColorCorrections(vec3 c) {
+  for (int i = 0; i < MAX_CORRECTIONS; i++) {
+    if (i >= u_correctionCount) break;
+    float strength = matchStrength(c, u_correctionTargets[i], u_correctionTolerances[i]);
+    if (strength <= 0.0) continue;
+
+    vec4 adjust = u_correctionAdjustments[i];
+    vec3 hsv = rgbToHsv(c);
+    hsv.x = mod(hsv.x + adjust.x / 360.0, 1.0);
+    if (adjust.y != 0.0) hsv.y = clamp(hsv.y + adjust.y * strength, 0.0, 1.0);
+    if (adjust.z != 0.0) hsv.z = clamp(hsv.z + adjust.z * strength, 0.0, 1.0);
+    c = hsvToRgb(hsv);
+    if (adjust.w != 0.0) c = clamp(c * (1.0 + adjust.w * strength), 0.0, 1.0);
+  }
+  return c;
+}
+
+vec3 simulateColorVision(vec3 c) {
+  vec3 linear = mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(0.04045, c));
+  vec3 simulated = clamp(u_colorVision * linear, 0.0, 1.0);
+  return mix(simulated * 12.92, 1.055 * pow(simulated, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, simulated));
+}
+
+void main() {
+  vec3 color = texture(u_image, v_uv).rgb;
+
+  for (int i = 0; i < MAX_STAGES; i++) {
+    if (i >= u_stageCount) break;
+    int stage = u_stages[i];
+    if (stage == STAGE_BASELUT) color = applyBaseLUT(color);
+    else if (stage == STAGE_EXPOSURE) color *= pow(2.0, u_exposure);
+    else if (stage == STAGE_BRIGHTNESS) color *= u_brightness;
+    else if (stage == STAGE_CONTRAST) color = (color - 0.5) * u_contrast + 0.5;
+    else if (stage == STAGE_LEVELS) color = applyLevels(color);
+    else if (stage == STAGE_HSV) color = applyHsv(color);
+    else if (stage == STAGE_CROSSPROCESS) color = applyCrossProcess(color);
+    else if (stage == STAGE_COLORWHEELS) color = applyColorWheels(color);
+    else if (stage == STAGE_CURVES) color = applyCurves(color);
+    else if (stage == STAGE_HUECURVES) color = applyHueCurves(color);
+    else if (stage == STAGE_COLORCORRECTIONS) color = applyColorCorrections(color);
+  }
+
+  color = clamp(color, 0.0, 1.0);
+  if (u_simulateColorVision) color = simulateColorVision(color);
+  outColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}`
+
+export interface PreviewRenderer {
+  render: (source: HTMLCanvasElement, params: LUTParameters, colorVision?: number[] | null) => void
+  dispose: () => void
+}
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)
+  if (!shader) throw new Error('Failed to create shader')
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader)
+    gl.deleteShader(shader)
+    throw new Error(`Failed to compile preview shader: ${log}`)
+  }
+  return shader
+}
+
+const createProgram = (gl: WebGL2RenderingContext): WebGLProgram => {
+  const program = gl.createProgram()
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER))
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER))
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Failed to link preview shader: ${gl.getProgramInfoLog(program)}`)
+  }
+  return program
+}
+
+// Sample every curve at evenly spaced inputs, one row per curve
+const sampleCurves = (params: LUTParameters): Float32Array => {
+  const samples = new Float32Array(CURVE_SAMPLES * CURVE_ROWS.length)
+  CURVE_ROWS.forEach((key, row) => {
+    const periodic = PERIODIC_CURVES.has(key)
+    for (let i = 0; i < CURVE_SAMPLES; i++) {
+      samples[row * CURVE_SAMPLES + i] = evaluateCurve(i / (CURVE_SAMPLES - 1), params[key], params.curveInterpolation, periodic)
+    }
+  })
+  return samples
+}
+
+const LEVELS_KEYS: (keyof Levels)[] = ['inputBlack', 'inputWhite', 'gamma', 'outputBlack', 'outputWhite']
+
+// Levels as the shader's vec3 array: master values repeated across channels,
+// then each channel's own
+const flattenLevels = (levels: ChannelLevels): number[] => [
+  ...LEVELS_KEYS.flatMap(key => [levels.master[key], levels.master[key], levels.master[key]]),
+  ...LEVELS_KEYS.flatMap(key => [levels.red[key], levels.green[key], levels.blue[key]])
+]
+
+// Create a renderer drawing into a canvas. Returns null where WebGL2 is
+// unavailable, in which case the preview is skipped
+export const createPreviewRenderer = (canvas: HTMLCanvasElement): PreviewRenderer | null => {
+  const gl = canvas.getContext('webgl2', { premultipliedAlpha: false, preserveDrawingBuffer: true })
+  if (!gl) return null
+
+  let program: WebGLProgram
+  try {
+    program = createProgram(gl)
+  } catch (err) {
+    console.error(err)
+    return null
+  }
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name)
+
+  const createTexture = (target: number, filter: number) => {
+    const texture = gl.createTexture()
+    gl.bindTexture(target, texture)
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, filter)
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, filter)
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE)
+    return texture
+  }
+
+  const imageTexture = createTexture(gl.TEXTURE_2D, gl.NEAREST)
+  const curvesTexture = createTexture(gl.TEXTURE_2D, gl.NEAREST)
+  const baseLUTTexture = createTexture(gl.TEXTURE_3D, gl.LINEAR)
+
+  // Only re-upload textures when their inputs are replaced
+  let uploadedCurves: unknown[] = []
+  let uploadedBaseLUT: LUTCube | null = null
+
+  const uploadCurves = (params: LUTParameters) => {
+    const inputs = [...CURVE_ROWS.map(key => params[key]), params.curveInterpolation]
+    if (inputs.every((input, i) => input === uploadedCurves[i])) return
+    uploadedCurves = inputs
+
+    gl.activeTexture(gl.TEXTURE1)
+    gl.bindTexture(gl.TEXTURE_2D, curvesTexture)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, CURVE_SAMPLES, CURVE_ROWS.length, 0, gl.RED, gl.FLOAT, sampleCurves(params))
+  }
+
+  const uploadBaseLUT = (baseLUT: LUTCube | null) => {
+    if (!baseLUT || baseLUT === uploadedBaseLUT) return
+    uploadedBaseLUT = baseLUT
+
+    // Red varies fastest, then green, then blue, matching a 3D texture
+    gl.activeTexture(gl.TEXTURE2)
+    gl.bindTexture(gl.TEXTURE_3D, baseLUTTexture)
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, baseLUT.size, baseLUT.size, baseLUT.size, 0, gl.RGB, gl.FLOAT, baseLUT.data)
+  }
+
+  const setWheel = (name: string, shift: [number, number, number]) => {
+    gl.uniform3f(uniform(name), shift[0], shift[1], shift[2])
+  }
+
+  // colorVision is a row-major matrix from getColorVisionMatrix, or null
+  const render = (source: HTMLCanvasElement, params: LUTParameters, colorVision: number[] | null = null) => {
+    if (canvas.width !== source.width || canvas.height !== source.height) {
+      canvas.width = source.width
+      canvas.height = source.height
+    }
+    gl.viewport(0, 0, canvas.width, canvas.height)
+    gl.useProgram(program)
+
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, imageTexture)
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source)
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false)
+
+    uploadCurves(params)
+    uploadBaseLUT(params.baseLUT)
+
+    gl.uniform1i(uniform('u_image'), 0)
+    gl.uniform1i(uniform('u_curves'), 1)
+    gl.uniform1i(uniform('u_baseLUT'), 2)
+    gl.uniform1i(uniform('u_hasBaseLUT'), params.baseLUT ? 1 : 0)
+    gl.uniform1f(uniform('u_baseLUTSize'), params.baseLUT?.size ?? 1)
+
+    const stages = params.pipeline
+      .filter(stage => stage.enabled)
+      .map(stage => DEFAULT_PIPELINE_ORDER.indexOf(stage.id))
+    gl.uniform1iv(uniform('u_stages'), new Int32Array(DEFAULT_PIPELINE_ORDER.map((_, i) => stages[i] ?? -1)))
+    gl.uniform1i(uniform('u_stageCount'), stages.length)
+
+    gl.uniform1f(uniform('u_exposure'), params.exposure)
+    gl.uniform1f(uniform('u_brightness'), params.brightness)
+    gl.uniform1f(uniform('u_contrast'), params.contrast)
+    gl.uniform1f(uniform('u_hue'), params.hue)
+    gl.uniform1f(uniform('u_saturation'), params.saturation)
+    gl.uniform1f(uniform('u_value'), params.value)
+    gl.uniform1f(uniform('u_vibrancy'), params.vibrancy)
+    gl.uniform1f(uniform('u_crossProcess'), params.crossProcess)
+    gl.uniform3fv(uniform('u_levels'), flattenLevels(params.levels))
+
+    setWheel('u_lift', wheelToRGBShift(params.lift, params.liftLuminance, params.liftStrength))
+    setWheel('u_gamma', wheelToRGBShift(params.gamma, params.gammaLuminance, params.gammaStrength))
+    setWheel('u_gain', wheelToRGBShift(params.gain, params.gainLuminance, params.gainStrength))
+    setWheel('u_offset', wheelToRGBShift(params.offset, params.offsetLuminance, params.offsetStrength))
+    const { shadowsEnd, midtonesStart, midtonesEnd, highlightsStart } = params.toneRanges
+    gl.uniform4f(uniform('u_toneRanges'), shadowsEnd, midtonesStart, midtonesEnd, highlightsStart)
+
+    const corrections = params.colorCorrections.filter(c => c.enabled).slice(0, MAX_PREVIEW_CORRECTIONS)
+    gl.uniform1i(uniform('u_correctionCount'), corrections.length)
+    if (corrections.length > 0) {
+      gl.uniform3fv(uniform('u_correctionTargets'), corrections.flatMap(c => [c.targetColor.r, c.targetColor.g, c.targetColor.b]))
+      gl.uniform1fv(uniform('u_correctionTolerances'), corrections.map(c => c.tolerance))
+      gl.uniform4fv(uniform('u_correctionAdjustments'), corrections.flatMap(c => [
+        c.adjustments.hueShift,
+        c.adjustments.saturationShift,
+        c.adjustments.valueShift,
+        c.adjustments.brightnessShift
+      ]))
+    }
+
+    gl.uniform1i(uniform('u_simulateColorVision'), colorVision ? 1 : 0)
+    if (colorVision) gl.uniformMatrix3fv(uniform('u_colorVision'), true, colorVision)
+
+    gl.drawArrays(gl.TRIANGLES, 0, 3)
+  }
+
+  const dispose = () => {
+    gl.deleteTexture(imageTexture)
+    gl.deleteTexture(curvesTexture)
+    gl.deleteTexture(baseLUTTexture)
+    gl.deleteProgram(program)
+  }
+
+  return { render, dispose }
+}
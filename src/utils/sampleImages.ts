@@ -0,0 +1,19 @@
+import sampleMapURL from '../assets/sample-map.svg'
+import sampleTerrainURL from '../assets/sample-terrain.svg'
+import sampleNightURL from '../assets/sample-night.svg'
+
+export interface SampleImage {
+  id: string
+  name: string
+  url: string
+  builtIn: boolean
+}
+
+// Hand-drawn sketches in colors close to the Standard style, not real
+// renders. Bundled so themes can be previewed without a token or network;
+// judge a grade against a dropped screenshot of the map instead
+export const BUILT_IN_SAMPLE_IMAGES: SampleImage[] = [
+  { id: 'builtin-city', name: 'City sketch', url: sampleMapURL, builtIn: true },
+  { id: 'builtin-terrain', name: 'Terrain sketch', url: sampleTerrainURL, builtIn: true },
+  { id: 'builtin-night', name: 'Night sketch', url: sampleNightURL, builtIn: true }
+]
@@ -0,0 +1,261 @@
+// Video-style scopes computed from a downscaled copy of what the map shows
+
+export type DiagnosticsView = 'strip' | 'cube' | 'histogram' | 'waveform' | 'vectorscope'
+
+export const DIAGNOSTICS_VIEWS: { value: DiagnosticsView; label: string }[] = [
+  { value: 'strip', label: 'Strip' },
+  { value: 'cube', label: 'Cube' },
+  { value: 'histogram', label: 'Histogram' },
+  { value: 'waveform', label: 'Waveform' },
+  { value: 'vectorscope', label: 'Vectorscope' }
+]
+
+// Views that read frames from the map
+export const isScopeView = (view: DiagnosticsView) =>
+  view === 'histogram' || view === 'waveform' || view === 'vectorscope'
+
+// Width frames are downscaled to before analysis
+export const SCOPE_SAMPLE_WIDTH = 256
+
+// Copy a (WebGL) canvas into a small 2D canvas and read its pixels. WebGL
+// canvases need preserveDrawingBuffer, or to be read in the frame they drew
+export const readFrame = (source: HTMLCanvasElement, width = SCOPE_SAMPLE_WIDTH): ImageData | null => {
+  if (source.width === 0 || source.height === 0) return null
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.min(width, source.width)
+  canvas.height = Math.max(1, Math.round(canvas.width * source.height / source.width))
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b
+
+export interface Histogram {
+  red: Uint32Array
+  green: Uint32Array
+  blue: Uint32Array
+  luma: Uint32Array
+  pixels: number
+}
+
+export const computeHistogram = (frame: ImageData): Histogram => {
+  const histogram: Histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luma: new Uint32Array(256),
+    pixels: frame.width * frame.height
+  }
+  const { data } = frame
+
+  for (let i = 0; i < data.length; i += 4) {
+    histogram.red[data[i]]++
+    histogram.green[data[i + 1]]++
+    histogram.blue[data[i + 2]]++
+    histogram.luma[Math.round(luma(data[i], data[i + 1], data[i + 2]))]++
+  }
+
+  return histogram
+}
+
+// Share of pixels with any channel at 0 or 255
+export const getClipping = (frame: ImageData): { shadows: number; highlights: number } => {
+  const { data } = frame
+  let shadows = 0
+  let highlights = 0
+
+  for (let i = 0; i < data.length; i += 4) {
+    const min = Math.min(data[i], data[i + 1], data[i + 2])
+    const max = Math.max(data[i], data[i + 1], data[i + 2])
+    if (min === 0) shadows++
+    if (max === 255) highlights++
+  }
+
+  const pixels = frame.width * frame.height
+  return { shadows: shadows / pixels, highlights: highlights / pixels }
+}
+
+const BACKGROUND = [17, 24, 39] // gray-900
+
+const clear = (ctx: CanvasRenderingContext2D) => {
+  ctx.globalCompositeOperation = 'source-over'
+  ctx.fillStyle = `rgb(${BACKGROUND.join(',')})`
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+}
+
+// Pixels to accumulate plots into, starting from the background
+const createPlot = (ctx: CanvasRenderingContext2D): ImageData => {
+  const image = ctx.createImageData(ctx.canvas.width, ctx.canvas.height)
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data.set(BACKGROUND, i)
+    image.data[i + 3] = 255
+  }
+  return image
+}
+
+// Overlaid channel histograms on a shared scale, with luma as a line
+export const drawHistogram = (ctx: CanvasRenderingContext2D, histogram: Histogram) => {
+  const { width, height } = ctx.canvas
+  clear(ctx)
+  ctx.globalCompositeOperation = 'lighter'
+
+  const channels: [Uint32Array, string][] = [
+    [histogram.red, 'rgba(239, 68, 68, 0.6)'],
+    [histogram.green, 'rgba(34, 197, 94, 0.6)'],
+    [histogram.blue, 'rgba(59, 130, 246, 0.6)']
+  ]
+  // Ignore the extreme bins when scaling, so clipping doesn't flatten the rest
+  const peak = Math.max(1, ...channels.flatMap(([bins]) => Array.from(bins.subarray(1, 255))))
+
+  for (const [bins, color] of channels) {
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.moveTo(0, height)
+    for (let i = 0; i < 256; i++) {
+      ctx.lineTo((i / 255) * width, height - Math.min(1, bins[i] / peak) * height)
+    }
+    ctx.lineTo(width, height)
+    ctx.closePath()
+    ctx.fill()
+  }
+
+  ctx.globalCompositeOperation = 'source-over'
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+  ctx.beginPath()
+  for (let i = 0; i < 256; i++) {
+    const y = height - Math.min(1, histogram.luma[i] / peak) * height
+    if (i === 0) ctx.moveTo(0, y)
+    else ctx.lineTo((i / 255) * width, y)
+  }
+  ctx.stroke()
+}
+
+// Each column of the frame plotted by value: how bright the map is, left to right
+export const drawWaveform = (ctx: CanvasRenderingContext2D, frame: ImageData) => {
+  const { width, height } = ctx.canvas
+  const image = createPlot(ctx)
+  const out = image.data
+  const { data } = frame
+  const step = 24 // Brightness added per hit
+
+  const plot = (x: number, value: number, channel: number) => {
+    const y = Math.round((1 - value / 255) * (height - 1))
+    const index = (y * width + x) * 4
+    out[index + channel] = Math.min(255, out[index + channel] + step)
+  }
+
+  for (let fy = 0; fy < frame.height; fy++) {
+    for (let fx = 0; fx < frame.width; fx++) {
+      const i = (fy * frame.width + fx) * 4
+      const x = Math.floor((fx / frame.width) * width)
+      plot(x, data[i], 0)
+      plot(x, data[i + 1], 1)
+      plot(x, data[i + 2], 2)
+    }
+  }
+
+  ctx.putImageData(image, 0, 0)
+
+  // Edges mark 0 and 100%, where values clip
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)'
+  ctx.strokeRect(0.5, 0.5, width - 1, height - 1)
+}
+
+// Chroma plotted around the center (Rec. 709 Cb/Cr), with hue targets for
+// the primaries and a skin tone line. Off-center clusters show a color cast
+export const drawVectorscope = (ctx: CanvasRenderingContext2D, frame: ImageData) => {
+  const { width, height } = ctx.canvas
+  const cx = width / 2
+  const cy = height / 2
+  const radius = Math.min(width, height) / 2 - 4
+
+  // Cb and Cr span -0.5..0.5
+  const project = (r: number, g: number, b: number): [number, number] => {
+    const y = luma(r, g, b)
+    const cb = (b - y) / 1.8556
+    const cr = (r - y) / 1.5748
+    return [cx + cb * 2 * radius, cy - cr * 2 * radius]
+  }
+
+  // Each pixel adds a little light where its chroma lands, in its own color
+  const image = createPlot(ctx)
+  const out = image.data
+  const { data } = frame
+  for (let i = 0; i < data.length; i += 4) {
+    const [x, y] = project(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255)
+    const index = (Math.round(y) * width + Math.round(x)) * 4
+    out[index] = Math.min(255, out[index] + data[i] / 4 + 16)
+    out[index + 1] = Math.min(255, out[index + 1] + data[i + 1] / 4 + 16)
+    out[index + 2] = Math.min(255, out[index + 2] + data[i + 2] / 4 + 16)
+  }
+  ctx.putImageData(image, 0, 0)
+
+  // Graticule on top
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)'
+  ctx.beginPath()
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2)
+  ctx.moveTo(cx - radius, cy)
+  ctx.lineTo(cx + radius, cy)
+  ctx.moveTo(cx, cy - radius)
+  ctx.lineTo(cx, cy + radius)
+  ctx.stroke()
+
+  // Skin tone line
+  const [skinX, skinY] = project(0.87, 0.63, 0.52)
+  const skinAngle = Math.atan2(skinY - cy, skinX - cx)
+  ctx.strokeStyle = 'rgba(251, 191, 36, 0.4)'
+  ctx.beginPath()
+  ctx.moveTo(cx, cy)
+  ctx.lineTo(cx + Math.cos(skinAngle) * radius, cy + Math.sin(skinAngle) * radius)
+  ctx.stroke()
+
+  const targets: [number, number, number, string][] = [
+    [0.75, 0, 0, 'R'], [0.75, 0.75, 0, 'Yl'], [0, 0.75, 0, 'G'],
+    [0, 0.75, 0.75, 'Cy'], [0, 0, 0.75, 'B'], [0.75, 0, 0.75, 'Mg']
+  ]
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)'
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)'
+  ctx.font = '9px sans-serif'
+  for (const [r, g, b, label] of targets) {
+    const [x, y] = project(r, g, b)
+    ctx.strokeRect(x - 4, y - 4, 8, 8)
+    ctx.fillText(label, x + 6, y + 3)
+  }
+}
+
+// Width frames are read at for the zebra overlay; it's stretched over the map
+export const ZEBRA_SAMPLE_WIDTH = 480
+
+const ZEBRA_PERIOD = 6 // Stripe period in frame pixels
+const ZEBRA_WHITE = [255, 0, 128, 200] // Blown to white
+const ZEBRA_BLACK = [0, 160, 255, 200] // Crushed to black
+
+// Diagonal stripes over pixels that are pure white or pure black, drawn at the
+// frame's size. Values within a step of the ends count, as 8-bit reads round
+export const drawZebra = (canvas: HTMLCanvasElement, frame: ImageData) => {
+  canvas.width = frame.width
+  canvas.height = frame.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  const image = ctx.createImageData(frame.width, frame.height)
+  const out = image.data
+  const { data } = frame
+
+  for (let y = 0; y < frame.height; y++) {
+    for (let x = 0; x < frame.width; x++) {
+      if ((x + y) % ZEBRA_PERIOD >= ZEBRA_PERIOD / 2) continue
+      const i = (y * frame.width + x) * 4
+      const min = Math.min(data[i], data[i + 1], data[i + 2])
+      const max = Math.max(data[i], data[i + 1], data[i + 2])
+      if (min >= 254) out.set(ZEBRA_WHITE, i)
+      else if (max <= 1) out.set(ZEBRA_BLACK, i)
+    }
+  }
+
+  ctx.putImageData(image, 0, 0)
+}
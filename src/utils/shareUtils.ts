@@ -0,0 +1,63 @@
+import type { LUTParameters } from './lutUtils'
+import type { StyleConfig } from './mapStyle'
+import { serializeTheme, parseThemeDocument } from './themeDocument'
+
+// Query parameter holding the theme; the hash stays free for the map camera
+export const THEME_URL_PARAM = 'theme'
+
+// Round numbers so slider noise doesn't bloat the link
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' ? Math.round(value * 10000) / 10000 : value
+
+const toBase64URL = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64URL = (encoded: string): Uint8Array<ArrayBuffer> => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) => {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+// Encode a theme as a compact URL-safe string: a deflated theme document.
+// Imported base LUTs are far too large for a URL and are left out
+export const encodeThemeForURL = async (
+  params: LUTParameters,
+  name: string,
+  styleConfig: StyleConfig
+): Promise<string> => {
+  const doc = serializeTheme({ ...params, baseLUT: null }, name, styleConfig)
+  const json = JSON.stringify(doc, roundNumbers)
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'))
+  return toBase64URL(compressed)
+}
+
+// Decode a string produced by encodeThemeForURL. Throws on invalid input
+export const decodeThemeFromURL = async (encoded: string) => {
+  const json = await transform(fromBase64URL(encoded), new DecompressionStream('deflate-raw'))
+  return parseThemeDocument(JSON.parse(new TextDecoder().decode(json)))
+}
+
+// Build a link to the current page, camera hash included, with the theme
+export const buildShareURL = async (
+  params: LUTParameters,
+  name: string,
+  styleConfig: StyleConfig
+): Promise<string> => {
+  const url = new URL(window.location.href)
+  url.searchParams.set(THEME_URL_PARAM, await encodeThemeForURL(params, name, styleConfig))
+  return url.toString()
+}
@@ -0,0 +1,33 @@
+export type RGB = [number, number, number]
+
+const hexToRGB = (hex: string): RGB => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255
+]
+
+export type StandardColorId =
+  | 'land'
+  | 'water'
+  | 'park'
+  | 'building'
+  | 'road'
+  | 'motorway'
+  | 'pointOfInterest'
+  | 'label'
+  | 'waterLabel'
+  | 'parkLabel'
+
+// Colors of the Standard style's day preset, before any LUT
+export const STANDARD_COLORS: Record<StandardColorId, { name: string; color: RGB }> = {
+  land: { name: 'Land', color: hexToRGB('#f2efe9') },
+  water: { name: 'Water', color: hexToRGB('#a5d3f2') },
+  park: { name: 'Park', color: hexToRGB('#c9e5b3') },
+  building: { name: 'Building', color: hexToRGB('#e0dbd3') },
+  road: { name: 'Road', color: hexToRGB('#ffffff') },
+  motorway: { name: 'Motorway', color: hexToRGB('#e8b86b') },
+  pointOfInterest: { name: 'Point of interest', color: hexToRGB('#7a6cc9') },
+  label: { name: 'Label', color: hexToRGB('#4a4a4a') },
+  waterLabel: { name: 'Water label', color: hexToRGB('#3a78b0') },
+  parkLabel: { name: 'Park label', color: hexToRGB('#4f7a3a') }
+}
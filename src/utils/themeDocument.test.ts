@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest'
+import {
+  THEME_DOCUMENT_VERSION,
+  parseThemeDocument,
+  serializeTheme,
+  type ThemeDocument
+} from './themeDocument'
+import { createDefaultParameters, generateLUTCube } from './lutUtils'
+import { DEFAULT_PIPELINE_ORDER } from './pipelineStages'
+import { createDefaultChannelLevels } from './levelsUtils'
+import { createDefaultToneRanges, wheelToRGBShift } from './wheelUtils'
+import { createDefaultStyleConfig } from './mapStyle'
+
+// Parameters as the editor saved them before theme documents existed
+const createVersion0Parameters = () => ({
+  exposure: 0.2,
+  brightness: 1.1,
+  contrast: 1.2,
+  hue: 10,
+  saturation: 0.8,
+  value: 1,
+  vibrancy: 0.1,
+  crossProcess: 0,
+  redCurve: [{ x: 0, y: 0 }, { x: 0.5, y: 0.6 }, { x: 1, y: 1 }],
+  greenCurve: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+  blueCurve: [{ x: 0, y: 0.1 }, { x: 1, y: 0.9 }],
+  lift: { x: 0.2, y: -0.1 },
+  liftStrength: 1,
+  gamma: { x: 0, y: 0 },
+  gammaStrength: 1,
+  gain: { x: 1, y: 1 },
+  gainStrength: 0.5,
+  colorCorrections: [{
+    id: 'warm-roads',
+    enabled: true,
+    targetColor: { r: 0.9, g: 0.8, b: 0.3 },
+    tolerance: 0.3,
+    adjustments: { hueShift: 10, saturationShift: 0.1, valueShift: 0, brightnessShift: 0 }
+  }]
+})
+
+// A document as the version before the current one saved it
+const createPreviousVersionDocument = () => {
+  type OlderParameters = Omit<ThemeDocument['parameters'], 'levels'> & { levels?: unknown }
+  const parameters: OlderParameters = { ...serializeTheme(createDefaultParameters(), 'Older').parameters }
+  delete parameters.levels
+  return { version: THEME_DOCUMENT_VERSION - 1, name: 'Older', styleConfig: createDefaultStyleConfig(), parameters }
+}
+
+describe('serializeTheme and parseThemeDocument', () => {
+  it('round-trip the full editor state', () => {
+    const params = createDefaultParameters()
+    params.exposure = 0.4
+    params.levels.red = { ...params.levels.red, inputBlack: 0.1, gamma: 1.2 }
+    params.pipeline = [...params.pipeline].reverse()
+    const baseLUT = { ...generateLUTCube({ ...createDefaultParameters(), saturation: 0.5 }, 4), title: 'Muted' }
+    params.baseLUT = baseLUT
+    const styleConfig = { ...createDefaultStyleConfig(), lightPreset: 'dusk' as const, show3dObjects: false }
+
+    const doc = JSON.parse(JSON.stringify(serializeTheme(params, 'Round trip', styleConfig)))
+    const parsed = parseThemeDocument(doc)
+
+    expect(doc.version).toBe(THEME_DOCUMENT_VERSION)
+    expect(parsed.name).toBe('Round trip')
+    expect(parsed.styleConfig).toEqual(styleConfig)
+    expect({ ...parsed.parameters, baseLUT: null }).toEqual({ ...params, baseLUT: null })
+
+    // Base LUTs are stored as 16-bit samples
+    expect(parsed.parameters.baseLUT?.title).toBe('Muted')
+    parsed.parameters.baseLUT?.data.forEach((value, i) => {
+      expect(value).toBeCloseTo(baseLUT.data[i], 4)
+    })
+  })
+
+  it('leave out the basemap config when there is none', () => {
+    const doc = serializeTheme(createDefaultParameters(), 'Preset')
+    expect(parseThemeDocument(JSON.parse(JSON.stringify(doc))).styleConfig).toBeNull()
+  })
+})
+
+describe('theme document migrations', () => {
+  it('upgrade a version 0 parameter object all the way', () => {
+    const old = createVersion0Parameters()
+    const { name, parameters, styleConfig } = parseThemeDocument(old)
+
+    expect(name).toBe('Untitled Theme')
+    expect(styleConfig).toEqual(createDefaultStyleConfig())
+    expect(parameters.exposure).toBe(0.2)
+    expect(parameters.redCurve).toEqual(old.redCurve)
+    expect(parameters.colorCorrections).toEqual(old.colorCorrections)
+    expect(parameters.baseLUT).toBeNull()
+    expect(parameters.gainStrength).toBe(0.5)
+
+    // Added since, at values that leave the old grade unchanged
+    const defaults = createDefaultParameters()
+    expect(parameters.curveInterpolation).toBe('linear')
+    expect(parameters.masterCurve).toEqual(defaults.masterCurve)
+    expect(parameters.hueVsHueCurve).toEqual(defaults.hueVsHueCurve)
+    expect(parameters.lumVsSatCurve).toEqual(defaults.lumVsSatCurve)
+    expect(parameters.pipeline.map(stage => stage.id)).toEqual(DEFAULT_PIPELINE_ORDER)
+    expect(parameters.offset).toEqual({ x: 0, y: 0 })
+    expect(parameters.offsetLuminance).toBe(0)
+    expect(parameters.toneRanges).toEqual(createDefaultToneRanges())
+    expect(parameters.levels).toEqual(createDefaultChannelLevels())
+  })
+
+  it('convert old wheel offsets to the same RGB shift', () => {
+    const { parameters } = parseThemeDocument(createVersion0Parameters())
+
+    // Lift was a red/green offset with blue derived from both
+    const shift = wheelToRGBShift(parameters.lift, parameters.liftLuminance, 1)
+    expect(shift[0]).toBeCloseTo(0.2 * 0.3, 10)
+    expect(shift[1]).toBeCloseTo(-0.1 * 0.3, 10)
+    expect(shift[2]).toBeCloseTo(-(0.2 - 0.1) * 0.15, 10)
+    expect(parameters.gamma).toEqual({ x: 0, y: 0 })
+  })
+
+  it('keep converted wheel offsets on the wheel', () => {
+    const { parameters } = parseThemeDocument(createVersion0Parameters())
+    expect(Math.hypot(parameters.gain.x, parameters.gain.y)).toBeCloseTo(1, 10)
+  })
+
+  it('keep newer fields a document already has', () => {
+    const doc = {
+      version: 2,
+      name: 'Version 2',
+      parameters: { ...createVersion0Parameters(), curveInterpolation: 'monotone', masterCurve: [{ x: 0, y: 0.2 }, { x: 1, y: 1 }] }
+    }
+    const { parameters } = parseThemeDocument(doc)
+
+    expect(parameters.curveInterpolation).toBe('monotone')
+    expect(parameters.masterCurve).toEqual([{ x: 0, y: 0.2 }, { x: 1, y: 1 }])
+  })
+
+  it('run levels right after contrast in a reordered pipeline', () => {
+    const doc = createPreviousVersionDocument()
+    doc.parameters.pipeline = [
+      { id: 'contrast', enabled: true },
+      { id: 'baseLUT', enabled: true },
+      ...doc.parameters.pipeline.filter(stage => !['contrast', 'baseLUT', 'levels'].includes(stage.id))
+    ]
+    const { parameters, styleConfig } = parseThemeDocument(doc)
+
+    expect(parameters.pipeline.slice(0, 3).map(stage => stage.id)).toEqual(['contrast', 'levels', 'baseLUT'])
+    expect(parameters.levels).toEqual(createDefaultChannelLevels())
+    expect(styleConfig).toEqual(createDefaultStyleConfig())
+  })
+
+  it('put levels at its default position in the default pipeline', () => {
+    const doc = createPreviousVersionDocument()
+    doc.parameters.pipeline = doc.parameters.pipeline.filter(stage => stage.id !== 'levels')
+    const { parameters } = parseThemeDocument(doc)
+
+    expect(parameters.pipeline.map(stage => stage.id)).toEqual(DEFAULT_PIPELINE_ORDER)
+  })
+})
+
+describe('parseThemeDocument', () => {
+  it('rejects documents newer than the editor', () => {
+    expect(() => parseThemeDocument({ version: THEME_DOCUMENT_VERSION + 1, parameters: {} }))
+      .toThrow('newer than this editor supports')
+  })
+
+  it('rejects invalid documents', () => {
+    const valid = () => JSON.parse(JSON.stringify(serializeTheme(createDefaultParameters(), 'Valid')))
+
+    expect(() => parseThemeDocument([])).toThrow('must be a JSON object')
+    expect(() => parseThemeDocument({ ...valid(), parameters: undefined })).toThrow('missing "parameters"')
+
+    const badNumber = valid()
+    badNumber.parameters.exposure = 'bright'
+    expect(() => parseThemeDocument(badNumber)).toThrow('"exposure" must be a number')
+
+    const badStage = valid()
+    badStage.parameters.pipeline.push({ id: 'sharpen', enabled: true })
+    expect(() => parseThemeDocument(badStage)).toThrow('is not a known stage')
+
+    const badLevels = valid()
+    badLevels.parameters.levels.green.inputWhite = 0
+    expect(() => parseThemeDocument(badLevels)).toThrow('inputBlack must be below inputWhite')
+
+    const badStyle = valid()
+    badStyle.styleConfig = { ...createDefaultStyleConfig(), lightPreset: 'noon' }
+    expect(() => parseThemeDocument(badStyle)).toThrow('"styleConfig.lightPreset" must be one of')
+  })
+})
@@ -0,0 +1,483 @@
+import {
+  createDefaultCurve,
+  createNeutralCurve,
+  createNeutralHueCurve,
+  type ColorCorrection,
+  type LUTParameters
+} from './lutUtils'
+import type { LUTCube } from './lutCube'
+import {
+  DEFAULT_PIPELINE_ORDER,
+  createDefaultPipeline,
+  type PipelineStageConfig,
+  type PipelineStageId
+} from './pipelineStages'
+import {
+  clampToUnitDisc,
+  createDefaultToneRanges,
+  rgbShiftToWheel,
+  type ToneRanges
+} from './wheelUtils'
+import {
+  LEVELS_CHANNELS,
+  createDefaultChannelLevels,
+  type ChannelLevels,
+  type Levels
+} from './levelsUtils'
+import type { Point } from './colorUtils'
+import { CURVE_INTERPOLATIONS, type CurveInterpolation } from './curveUtils'
+import {
+  LIGHT_PRESETS,
+  STYLE_FONTS,
+  STYLE_TOGGLES,
+  createDefaultStyleConfig,
+  type StyleConfig
+} from './mapStyle'
+
+// Bump this whenever the document shape changes and add a migration below
+export const THEME_DOCUMENT_VERSION = 8
+
+// Base LUTs are stored as base64 little-endian 16-bit samples (0-65535)
+interface SerializedLUTCube {
+  size: number
+  title?: string
+  data: string
+}
+
+export interface ThemeDocument {
+  version: number
+  name: string
+  styleConfig?: StyleConfig // Basemap config shown with the theme; presets leave it out
+  parameters: Omit<LUTParameters, 'baseLUT'> & {
+    baseLUT: SerializedLUTCube | null
+  }
+}
+
+const encodeLUTCubeData = (cube: LUTCube): string => {
+  const samples = new Uint16Array(cube.data.length)
+  for (let i = 0; i < cube.data.length; i++) {
+    samples[i] = Math.round(Math.max(0, Math.min(1, cube.data[i])) * 65535)
+  }
+
+  const bytes = new Uint8Array(samples.buffer)
+  let binary = ''
+  // Build the string in chunks to stay under argument length limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const decodeLUTCubeData = (encoded: string, size: number): Float32Array => {
+  const binary = atob(encoded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+
+  if (bytes.length !== size * size * size * 3 * 2) {
+    throw new Error('Base LUT data does not match its size')
+  }
+
+  const samples = new Uint16Array(bytes.buffer)
+  return Float32Array.from(samples, v => v / 65535)
+}
+
+// Serialize the full editor state into a versioned theme document
+export const serializeTheme = (params: LUTParameters, name: string, styleConfig?: StyleConfig): ThemeDocument => {
+  const { baseLUT, ...rest } = params
+
+  return {
+    version: THEME_DOCUMENT_VERSION,
+    name,
+    styleConfig,
+    parameters: {
+      ...rest,
+      baseLUT: baseLUT
+        ? { size: baseLUT.size, title: baseLUT.title, data: encodeLUTCubeData(baseLUT) }
+        : null
+    }
+  }
+}
+
+type RawDocument = Record<string, unknown>
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+// Each migration upgrades a document from version N to N + 1
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 0 was a bare parameter object without the envelope
+  0: (doc) => ({ version: 1, name: 'Untitled Theme', parameters: doc }),
+  // Version 1 curves were always evaluated linearly
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    parameters: isRecord(doc.parameters)
+      ? { ...doc.parameters, curveInterpolation: 'linear' }
+      : doc.parameters
+  }),
+  // Version 3 added the master, hue and luma curves
+  2: (doc) => ({
+    ...doc,
+    version: 3,
+    parameters: isRecord(doc.parameters)
+      ? {
+          masterCurve: createDefaultCurve(),
+          hueVsHueCurve: createNeutralHueCurve(),
+          hueVsSatCurve: createNeutralHueCurve(),
+          hueVsLumCurve: createNeutralHueCurve(),
+          lumVsSatCurve: createNeutralCurve(),
+          ...doc.parameters
+        }
+      : doc.parameters
+  }),
+  // Version 4 made the pipeline reorderable; older documents used the
+  // fixed default order
+  3: (doc) => ({
+    ...doc,
+    version: 4,
+    parameters: isRecord(doc.parameters)
+      ? { ...doc.parameters, pipeline: createDefaultPipeline() }
+      : doc.parameters
+  }),
+  // Version 5 made wheels push toward the hue under the handle and added
+  // wheel luminance. Convert the old R/G/derived-B offsets to the same shift
+  4: (doc) => {
+    if (!isRecord(doc.parameters)) return { ...doc, version: 5 }
+    const parameters = { ...doc.parameters }
+
+    for (const wheel of ['lift', 'gamma', 'gain']) {
+      const offset = parameters[wheel]
+      if (!isRecord(offset) || !isFiniteNumber(offset.x) || !isFiniteNumber(offset.y)) continue
+
+      const converted = rgbShiftToWheel([
+        offset.x * 0.3,
+        offset.y * 0.3,
+        -(offset.x + offset.y) * 0.15
+      ])
+      // Strong old offsets can land past the rim, where the wheel can't show them
+      parameters[wheel] = clampToUnitDisc(converted.offset)
+      parameters[`${wheel}Luminance`] = converted.luminance
+    }
+
+    return { ...doc, version: 5, parameters }
+  },
+  // Version 6 added the offset wheel and adjustable tone ranges
+  5: (doc) => ({
+    ...doc,
+    version: 6,
+    parameters: isRecord(doc.parameters)
+      ? {
+          offset: { x: 0, y: 0 },
+          offsetLuminance: 0,
+          offsetStrength: 1,
+          toneRanges: createDefaultToneRanges(),
+          ...doc.parameters
+        }
+      : doc.parameters
+  }),
+  // Version 7 saved the basemap config with the theme, beside the parameters
+  6: (doc) => ({ styleConfig: createDefaultStyleConfig(), ...doc, version: 7 }),
+  // Version 8 added levels, run right after contrast
+  7: (doc) => {
+    if (!isRecord(doc.parameters)) return { ...doc, version: 8 }
+    const parameters: RawDocument = { levels: createDefaultChannelLevels(), ...doc.parameters }
+
+    const { pipeline } = parameters
+    if (Array.isArray(pipeline) && !pipeline.some(stage => isRecord(stage) && stage.id === 'levels')) {
+      const contrast = pipeline.findIndex(stage => isRecord(stage) && stage.id === 'contrast')
+      if (contrast !== -1) {
+        parameters.pipeline = [
+          ...pipeline.slice(0, contrast + 1),
+          { id: 'levels', enabled: true },
+          ...pipeline.slice(contrast + 1)
+        ]
+      }
+    }
+
+    return { ...doc, version: 8, parameters }
+  }
+}
+
+const readNumber = (source: RawDocument, key: string): number => {
+  const value = source[key]
+  if (!isFiniteNumber(value)) {
+    throw new Error(`"${key}" must be a number`)
+  }
+  return value
+}
+
+const readOffset = (source: RawDocument, key: string): { x: number; y: number } => {
+  const value = source[key]
+  if (!isRecord(value)) {
+    throw new Error(`"${key}" must be an { x, y } object`)
+  }
+  return { x: readNumber(value, 'x'), y: readNumber(value, 'y') }
+}
+
+const readToneRanges = (source: RawDocument, key: string): ToneRanges => {
+  const value = source[key]
+  if (!isRecord(value)) {
+    throw new Error(`"${key}" must be an object`)
+  }
+
+  const ranges: ToneRanges = {
+    shadowsEnd: readNumber(value, 'shadowsEnd'),
+    midtonesStart: readNumber(value, 'midtonesStart'),
+    midtonesEnd: readNumber(value, 'midtonesEnd'),
+    highlightsStart: readNumber(value, 'highlightsStart')
+  }
+  if (Object.values(ranges).some(v => v < 0 || v > 1)) {
+    throw new Error(`"${key}" values must be between 0 and 1`)
+  }
+  if (ranges.midtonesStart >= ranges.midtonesEnd) {
+    throw new Error(`"${key}" midtonesStart must be below midtonesEnd`)
+  }
+  return ranges
+}
+
+const readLevels = (source: RawDocument): ChannelLevels => {
+  const value = source.levels
+  if (!isRecord(value)) {
+    throw new Error('"levels" must be an object')
+  }
+
+  const readChannel = (channel: string): Levels => {
+    const levels = value[channel]
+    if (!isRecord(levels)) {
+      throw new Error(`"levels.${channel}" must be an object`)
+    }
+
+    const result: Levels = {
+      inputBlack: readNumber(levels, 'inputBlack'),
+      inputWhite: readNumber(levels, 'inputWhite'),
+      gamma: readNumber(levels, 'gamma'),
+      outputBlack: readNumber(levels, 'outputBlack'),
+      outputWhite: readNumber(levels, 'outputWhite')
+    }
+    const { inputBlack, inputWhite, outputBlack, outputWhite } = result
+    if ([inputBlack, inputWhite, outputBlack, outputWhite].some(v => v < 0 || v > 1)) {
+      throw new Error(`"levels.${channel}" values must be between 0 and 1`)
+    }
+    if (inputWhite <= inputBlack) {
+      throw new Error(`"levels.${channel}" inputBlack must be below inputWhite`)
+    }
+    if (result.gamma <= 0) {
+      throw new Error(`"levels.${channel}" gamma must be above 0`)
+    }
+    return result
+  }
+
+  const levels = createDefaultChannelLevels()
+  for (const { value: channel } of LEVELS_CHANNELS) {
+    levels[channel] = readChannel(channel)
+  }
+  return levels
+}
+
+const readStyleConfig = (source: RawDocument): StyleConfig => {
+  const value = source.styleConfig
+  if (!isRecord(value)) {
+    throw new Error('"styleConfig" must be an object')
+  }
+
+  const lightPreset = LIGHT_PRESETS.find(option => option.value === value.lightPreset)
+  if (!lightPreset) {
+    throw new Error('"styleConfig.lightPreset" must be one of ' + LIGHT_PRESETS.map(o => o.value).join(', '))
+  }
+  if (typeof value.font !== 'string' || !STYLE_FONTS.includes(value.font)) {
+    throw new Error('"styleConfig.font" must be one of ' + STYLE_FONTS.join(', '))
+  }
+
+  const config: StyleConfig = { ...createDefaultStyleConfig(), lightPreset: lightPreset.value, font: value.font }
+  for (const { key } of STYLE_TOGGLES) {
+    if (typeof value[key] !== 'boolean') {
+      throw new Error(`"styleConfig.${key}" must be true or false`)
+    }
+    config[key] = value[key]
+  }
+  return config
+}
+
+const readCurve = (source: RawDocument, key: string, minPoints = 2): Point[] => {
+  const value = source[key]
+  if (!Array.isArray(value) || value.length < minPoints) {
+    throw new Error(`"${key}" must be a list of at least ${minPoints} point${minPoints === 1 ? '' : 's'}`)
+  }
+
+  const points = value.map((point) => {
+    if (!isRecord(point)) throw new Error(`"${key}" contains an invalid point`)
+    return { x: readNumber(point, 'x'), y: readNumber(point, 'y') }
+  })
+
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].x < points[i - 1].x) {
+      throw new Error(`"${key}" points must be sorted by x`)
+    }
+  }
+  return points
+}
+
+const readCurveInterpolation = (source: RawDocument): CurveInterpolation => {
+  const match = CURVE_INTERPOLATIONS.find(option => option.value === source.curveInterpolation)
+  if (!match) {
+    throw new Error('"curveInterpolation" must be one of ' + CURVE_INTERPOLATIONS.map(o => o.value).join(', '))
+  }
+  return match.value
+}
+
+const readPipeline = (source: RawDocument): PipelineStageConfig[] => {
+  const value = source.pipeline
+  if (!Array.isArray(value)) {
+    throw new Error('"pipeline" must be a list of stages')
+  }
+
+  const pipeline = value.map((stage, index) => {
+    if (!isRecord(stage) || !DEFAULT_PIPELINE_ORDER.includes(stage.id as PipelineStageId)) {
+      throw new Error(`Pipeline stage ${index + 1} is not a known stage`)
+    }
+    return { id: stage.id as PipelineStageId, enabled: stage.enabled !== false }
+  })
+
+  if (new Set(pipeline.map(stage => stage.id)).size !== pipeline.length) {
+    throw new Error('"pipeline" lists a stage more than once')
+  }
+
+  // Stages newer than the document are added, enabled, after the closest
+  // stage that comes before them in the default order
+  DEFAULT_PIPELINE_ORDER.forEach((id, order) => {
+    if (pipeline.some(stage => stage.id === id)) return
+
+    const previous = DEFAULT_PIPELINE_ORDER.slice(0, order).reverse()
+      .map(previousId => pipeline.findIndex(stage => stage.id === previousId))
+      .find(index => index !== -1)
+    pipeline.splice((previous ?? -1) + 1, 0, { id, enabled: true })
+  })
+
+  return pipeline
+}
+
+const readColorCorrections = (source: RawDocument): ColorCorrection[] => {
+  const value = source.colorCorrections
+  if (!Array.isArray(value)) {
+    throw new Error('"colorCorrections" must be a list')
+  }
+
+  return value.map((correction, index) => {
+    if (!isRecord(correction) || !isRecord(correction.targetColor) || !isRecord(correction.adjustments)) {
+      throw new Error(`Color correction ${index + 1} is invalid`)
+    }
+    const { targetColor, adjustments } = correction
+
+    return {
+      id: typeof correction.id === 'string' ? correction.id : `${Date.now()}-${index}`,
+      enabled: true,
+      targetColor: {
+        r: readNumber(targetColor, 'r'),
+        g: readNumber(targetColor, 'g'),
+        b: readNumber(targetColor, 'b')
+      },
+      tolerance: readNumber(correction, 'tolerance'),
+      adjustments: {
+        hueShift: readNumber(adjustments, 'hueShift'),
+        saturationShift: readNumber(adjustments, 'saturationShift'),
+        valueShift: readNumber(adjustments, 'valueShift'),
+        brightnessShift: readNumber(adjustments, 'brightnessShift')
+      }
+    }
+  })
+}
+
+const readBaseLUT = (source: RawDocument): LUTCube | null => {
+  const value = source.baseLUT
+  if (value === null || value === undefined) return null
+  if (!isRecord(value) || typeof value.data !== 'string') {
+    throw new Error('"baseLUT" is invalid')
+  }
+
+  const size = readNumber(value, 'size')
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error('"baseLUT" has an invalid size')
+  }
+
+  return {
+    size,
+    data: decodeLUTCubeData(value.data, size),
+    title: typeof value.title === 'string' ? value.title : undefined
+  }
+}
+
+// Validate a parsed JSON theme document, migrating older versions, and
+// return the editor parameters it describes, with its basemap config if it
+// has one. Throws on invalid input
+export const parseThemeDocument = (
+  input: unknown
+): { name: string; parameters: LUTParameters; styleConfig: StyleConfig | null } => {
+  if (!isRecord(input)) {
+    throw new Error('Theme document must be a JSON object')
+  }
+
+  let doc = input
+  let version = isFiniteNumber(doc.version) ? doc.version : 0
+
+  if (version > THEME_DOCUMENT_VERSION) {
+    throw new Error(`Theme document version ${version} is newer than this editor supports`)
+  }
+
+  while (version < THEME_DOCUMENT_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) throw new Error(`Unsupported theme document version ${version}`)
+    doc = migrate(doc)
+    version++
+  }
+
+  const { parameters } = doc
+  if (!isRecord(parameters)) {
+    throw new Error('Theme document is missing "parameters"')
+  }
+
+  return {
+    name: typeof doc.name === 'string' ? doc.name : 'Untitled Theme',
+    styleConfig: doc.styleConfig === undefined ? null : readStyleConfig(doc),
+    parameters: {
+      pipeline: readPipeline(parameters),
+      baseLUT: readBaseLUT(parameters),
+      exposure: readNumber(parameters, 'exposure'),
+      brightness: readNumber(parameters, 'brightness'),
+      contrast: readNumber(parameters, 'contrast'),
+      hue: readNumber(parameters, 'hue'),
+      saturation: readNumber(parameters, 'saturation'),
+      value: readNumber(parameters, 'value'),
+      vibrancy: readNumber(parameters, 'vibrancy'),
+      crossProcess: readNumber(parameters, 'crossProcess'),
+      levels: readLevels(parameters),
+      masterCurve: readCurve(parameters, 'masterCurve'),
+      redCurve: readCurve(parameters, 'redCurve'),
+      greenCurve: readCurve(parameters, 'greenCurve'),
+      blueCurve: readCurve(parameters, 'blueCurve'),
+      hueVsHueCurve: readCurve(parameters, 'hueVsHueCurve', 1),
+      hueVsSatCurve: readCurve(parameters, 'hueVsSatCurve', 1),
+      hueVsLumCurve: readCurve(parameters, 'hueVsLumCurve', 1),
+      lumVsSatCurve: readCurve(parameters, 'lumVsSatCurve'),
+      curveInterpolation: readCurveInterpolation(parameters),
+      lift: readOffset(parameters, 'lift'),
+      liftLuminance: readNumber(parameters, 'liftLuminance'),
+      liftStrength: readNumber(parameters, 'liftStrength'),
+      gamma: readOffset(parameters, 'gamma'),
+      gammaLuminance: readNumber(parameters, 'gammaLuminance'),
+      gammaStrength: readNumber(parameters, 'gammaStrength'),
+      gain: readOffset(parameters, 'gain'),
+      gainLuminance: readNumber(parameters, 'gainLuminance'),
+      gainStrength: readNumber(parameters, 'gainStrength'),
+      offset: readOffset(parameters, 'offset'),
+      offsetLuminance: readNumber(parameters, 'offsetLuminance'),
+      offsetStrength: readNumber(parameters, 'offsetStrength'),
+      toneRanges: readToneRanges(parameters, 'toneRanges'),
+      colorCorrections: readColorCorrections(parameters)
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clampToUnitDisc,
+  createDefaultToneRanges,
+  rgbShiftToWheel,
+  toneWeights,
+  wheelOffsetHue,
+  wheelToRGBShift
+} from './wheelUtils'
+
+const luma = ([r, g, b]: [number, number, number]) => 0.299 * r + 0.587 * g + 0.114 * b
+
+const atHue = (hue: number, distance: number) => ({
+  x: Math.cos(hue * Math.PI * 2) * distance,
+  y: Math.sin(hue * Math.PI * 2) * distance
+})
+
+describe('wheelOffsetHue', () => {
+  it('increases counterclockwise from the +x axis', () => {
+    expect(wheelOffsetHue({ x: 1, y: 0 })).toBe(0)
+    expect(wheelOffsetHue({ x: 0, y: 1 })).toBeCloseTo(0.25, 10)
+    expect(wheelOffsetHue({ x: -1, y: 0 })).toBeCloseTo(0.5, 10)
+    expect(wheelOffsetHue({ x: 0, y: -1 })).toBeCloseTo(0.75, 10)
+  })
+})
+
+describe('wheelToRGBShift', () => {
+  it('pushes toward the hue under the handle without changing luma', () => {
+    const red = wheelToRGBShift(atHue(0, 1), 0, 1)
+    const green = wheelToRGBShift(atHue(1 / 3, 1), 0, 1)
+    const blue = wheelToRGBShift(atHue(2 / 3, 1), 0, 1)
+
+    expect(red[0]).toBeGreaterThan(Math.max(red[1], red[2]))
+    expect(green[1]).toBeGreaterThan(Math.max(green[0], green[2]))
+    expect(blue[2]).toBeGreaterThan(Math.max(blue[0], blue[1]))
+    for (const shift of [red, green, blue]) {
+      expect(luma(shift)).toBeCloseTo(0, 10)
+    }
+  })
+
+  it('shifts every channel evenly for luminance', () => {
+    expect(wheelToRGBShift({ x: 0, y: 0 }, 1, 1)).toEqual([0.3, 0.3, 0.3])
+  })
+
+  it('scales with strength', () => {
+    const full = wheelToRGBShift(atHue(0.4, 0.5), 0.5, 1)
+    const double = wheelToRGBShift(atHue(0.4, 0.5), 0.5, 2)
+
+    double.forEach((value, i) => expect(value).toBeCloseTo(full[i] * 2, 10))
+    expect(wheelToRGBShift(atHue(0.4, 0.5), 0.5, 0)).toEqual([0, 0, 0])
+  })
+})
+
+describe('rgbShiftToWheel', () => {
+  it('inverts wheelToRGBShift all the way around the ring', () => {
+    for (let i = 0; i < 360; i++) {
+      const offset = atHue(i / 360, 0.2 + (i % 5) * 0.2)
+      const luminance = (i % 7) / 3 - 1
+      const result = rgbShiftToWheel(wheelToRGBShift(offset, luminance, 1))
+
+      expect(result.offset.x).toBeCloseTo(offset.x, 10)
+      expect(result.offset.y).toBeCloseTo(offset.y, 10)
+      expect(result.luminance).toBeCloseTo(luminance, 10)
+    }
+  })
+
+  it('leaves the handle centered for an even shift', () => {
+    expect(rgbShiftToWheel([0.15, 0.15, 0.15])).toEqual({ offset: { x: 0, y: 0 }, luminance: 0.5 })
+  })
+})
+
+describe('clampToUnitDisc', () => {
+  it('pulls offsets past the rim back onto it', () => {
+    const clamped = clampToUnitDisc({ x: 3, y: 4 })
+
+    expect(clamped.x).toBeCloseTo(0.6, 10)
+    expect(clamped.y).toBeCloseTo(0.8, 10)
+  })
+
+  it('keeps offsets inside the wheel as they are', () => {
+    const offset = { x: 0.3, y: -0.4 }
+    expect(clampToUnitDisc(offset)).toBe(offset)
+  })
+})
+
+describe('toneWeights', () => {
+  it('uses the classic weights with the default ranges', () => {
+    const ranges = createDefaultToneRanges()
+
+    for (const luminance of [0, 0.25, 0.5, 0.75, 1]) {
+      const [shadows, midtones, highlights] = toneWeights(luminance, ranges)
+      expect(shadows).toBeCloseTo((1 - luminance) ** 2, 10)
+      expect(midtones).toBeCloseTo(Math.sin(Math.PI * luminance), 10)
+      expect(highlights).toBeCloseTo(luminance ** 2, 10)
+    }
+  })
+
+  it('limits each wheel to its range', () => {
+    const ranges = { shadowsEnd: 0.3, midtonesStart: 0.2, midtonesEnd: 0.8, highlightsStart: 0.7 }
+
+    expect(toneWeights(0.5, ranges)).toEqual([0, 1, 0])
+    expect(toneWeights(0.1, ranges)[2]).toBe(0)
+    expect(toneWeights(0.9, ranges)[0]).toBe(0)
+  })
+})
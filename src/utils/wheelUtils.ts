@@ -0,0 +1,137 @@
+import { hsvToRgb } from './colorUtils'
+
+export interface WheelOffset {
+  x: number
+  y: number
+}
+
+// How far a fully pushed wheel (distance or luminance of 1) moves a channel
+const WHEEL_SHIFT_SCALE = 0.3
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b
+
+// Color shift toward a hue (0-1) with no change in luma. Within each sixth
+// of the ring it moves in a straight line between the primaries and
+// secondaries at its ends
+const hueChroma = (hue: number): [number, number, number] => {
+  const [r, g, b] = hsvToRgb(hue, 1, 1)
+  const l = luma(r, g, b)
+  return [r - l, g - l, b - l]
+}
+
+// Unit-length hueChroma, so pushing a wheel toward a hue tints toward it
+// without brightening or darkening
+const hueChromaDirection = (hue: number): [number, number, number] => {
+  const chroma = hueChroma(hue)
+  const length = Math.hypot(...chroma)
+  return [chroma[0] / length, chroma[1] / length, chroma[2] / length]
+}
+
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+
+// Which side of b that a lies on, for vectors in the zero-luma plane. The
+// cross product of two such vectors is normal to it, so any fixed vector off
+// the plane (here 1, 1, 1) gives its sign
+const side = (a: number[], b: number[]) =>
+  (a[1] * b[2] - a[2] * b[1]) + (a[2] * b[0] - a[0] * b[2]) + (a[0] * b[1] - a[1] * b[0])
+
+// The hue under a wheel offset. Matches the ring drawn by ColorWheel, where
+// hue increases counterclockwise from the +x axis
+export const wheelOffsetHue = (offset: WheelOffset): number => {
+  const hue = Math.atan2(offset.y, offset.x) / (Math.PI * 2)
+  return hue - Math.floor(hue)
+}
+
+// RGB shift for a wheel: a chroma push toward the hue under the handle,
+// scaled by its distance from center, plus an even luminance shift
+export const wheelToRGBShift = (
+  offset: WheelOffset,
+  luminance: number,
+  strength: number
+): [number, number, number] => {
+  const distance = Math.hypot(offset.x, offset.y)
+  const lum = luminance * WHEEL_SHIFT_SCALE * strength
+  if (distance === 0) return [lum, lum, lum]
+
+  const [r, g, b] = hueChromaDirection(wheelOffsetHue(offset))
+  const push = distance * WHEEL_SHIFT_SCALE * strength
+  return [r * push + lum, g * push + lum, b * push + lum]
+}
+
+// Find the wheel offset and luminance that produce an RGB shift (the
+// inverse of wheelToRGBShift at full strength)
+export const rgbShiftToWheel = (shift: [number, number, number]): { offset: WheelOffset; luminance: number } => {
+  const l = luma(...shift)
+  const chroma = [shift[0] - l, shift[1] - l, shift[2] - l]
+  const chromaLength = Math.hypot(...chroma)
+  const luminance = l / WHEEL_SHIFT_SCALE
+
+  if (chromaLength < 1e-9) return { offset: { x: 0, y: 0 }, luminance }
+
+  // Find the sixth of the ring whose chroma line crosses the shift's
+  // direction, then where along the line it does
+  let hue = 0
+  for (let sector = 0; sector < 6; sector++) {
+    const start = hueChroma(sector / 6)
+    const end = hueChroma((sector + 1) / 6)
+    const along = [end[0] - start[0], end[1] - start[1], end[2] - start[2]]
+
+    const denominator = side(along, chroma)
+    if (Math.abs(denominator) < 1e-12) continue
+    const t = -side(start, chroma) / denominator
+    if (t < 0 || t > 1) continue
+
+    const crossing = [start[0] + t * along[0], start[1] + t * along[1], start[2] + t * along[2]]
+    if (dot(crossing, chroma) <= 0) continue
+
+    hue = (sector + t) / 6
+    break
+  }
+
+  const distance = chromaLength / WHEEL_SHIFT_SCALE
+  return {
+    offset: {
+      x: Math.cos(hue * Math.PI * 2) * distance,
+      y: Math.sin(hue * Math.PI * 2) * distance
+    },
+    luminance
+  }
+}
+
+// Scale an offset back onto the wheel if it lies beyond the rim
+export const clampToUnitDisc = (offset: WheelOffset): WheelOffset => {
+  const distance = Math.hypot(offset.x, offset.y)
+  return distance > 1 ? { x: offset.x / distance, y: offset.y / distance } : offset
+}
+
+// Luminance ranges the Lift, Gamma and Gain wheels act on. Shadows fade out
+// by shadowsEnd, highlights fade in from highlightsStart and midtones peak
+// halfway between midtonesStart and midtonesEnd
+export interface ToneRanges {
+  shadowsEnd: number
+  midtonesStart: number
+  midtonesEnd: number
+  highlightsStart: number
+}
+
+// Full-width ranges give the classic (1-L)^2, sin(πL) and L^2 weights
+export const createDefaultToneRanges = (): ToneRanges => ({
+  shadowsEnd: 1,
+  midtonesStart: 0,
+  midtonesEnd: 1,
+  highlightsStart: 0
+})
+
+// Shadow, midtone and highlight weights (0-1) for a luminance
+export const toneWeights = (input: number, ranges: ToneRanges): [number, number, number] => {
+  const luminance = Math.max(0, Math.min(1, input))
+  const shadows = Math.max(0, 1 - luminance / Math.max(ranges.shadowsEnd, 1e-6))
+
+  const midtoneWidth = ranges.midtonesEnd - ranges.midtonesStart
+  const midtoneT = midtoneWidth > 0 ? (luminance - ranges.midtonesStart) / midtoneWidth : -1
+  const midtones = midtoneT > 0 && midtoneT < 1 ? Math.sin(midtoneT * Math.PI) : 0
+
+  const highlights = Math.max(0, (luminance - ranges.highlightsStart) / Math.max(1 - ranges.highlightsStart, 1e-6))
+
+  return [shadows * shadows, midtones, highlights * highlights]
+}
@@ -0,0 +1,36 @@
+import { generateLUTCube, type LUTParameters } from '../utils/lutUtils'
+import { encodeLUTToPNGOffscreen } from '../utils/lutEncoders'
+import { analyzeClipping, type ClippingReport } from '../utils/clipping'
+import { findAllCollapsedFeatureColors, type DeficiencyCollapses } from '../utils/colorVision'
+import type { LUTCube } from '../utils/lutCube'
+
+export interface LUTWorkerRequest {
+  id: number
+  params: LUTParameters
+}
+
+export type LUTWorkerResponse =
+  | { id: number; cube: LUTCube; dataURL: string; clipping: ClippingReport; collapses: DeficiencyCollapses[] }
+  | { id: number; error: string }
+
+// Generates LUTs, and the clipping and color vision analyses that go with
+// them, off the main thread so dragging controls stays smooth
+self.onmessage = async (e: MessageEvent<LUTWorkerRequest>) => {
+  const { id, params } = e.data
+
+  try {
+    const cube = generateLUTCube(params)
+    const dataURL = await encodeLUTToPNGOffscreen(cube)
+    const response: LUTWorkerResponse = {
+      id,
+      cube,
+      dataURL,
+      clipping: analyzeClipping(params),
+      collapses: findAllCollapsedFeatureColors(cube)
+    }
+    self.postMessage(response, { transfer: [cube.data.buffer] })
+  } catch (err) {
+    const response: LUTWorkerResponse = { id, error: err instanceof Error ? err.message : String(err) }
+    self.postMessage(response)
+  }
+}